@@ -0,0 +1,132 @@
+import {Component, Vault} from 'obsidian';
+import type {IDataStore, IJuggl} from 'juggl-api';
+import {VizId} from 'juggl-api';
+import type {EdgeDefinition, NodeCollection, NodeDefinition} from 'cytoscape';
+import {DataStoreEvents} from './events';
+import {DATA_FOLDER} from './constants';
+import type JugglPlugin from './main';
+import {CARD_STORE_ID, mergeCanvas} from './viz/workspaces/canvas-import';
+import type {CanvasCard, CanvasEdge, CanvasImport} from './viz/workspaces/canvas-import';
+
+export const CARDS_PATH = function(vault: Vault) {
+  return DATA_FOLDER(vault) + 'cards.json';
+};
+
+// Maximum length of the label of a card. The full text is shown when hovering.
+const CARD_LABEL_LENGTH = 40;
+
+// Text cards and the edges between cards and notes, imported from canvases. They are kept so that the edges and
+// cards of imported canvases survive refreshes of the graph and reloads of saved workspaces.
+export class CardStore extends Component implements IDataStore {
+  plugin: JugglPlugin;
+  events: DataStoreEvents;
+  cards: Record<string, CanvasCard> = {};
+  edges: Record<string, CanvasEdge> = {};
+
+  constructor(plugin: JugglPlugin) {
+    super();
+    this.plugin = plugin;
+    this.events = new DataStoreEvents();
+  }
+
+  async onload() {
+    super.onload();
+    try {
+      const path = CARDS_PATH(this.plugin.app.vault);
+      if (await this.plugin.app.vault.adapter.exists(path)) {
+        const persisted = JSON.parse(await this.plugin.app.vault.adapter.read(path));
+        this.cards = persisted.cards || {};
+        this.edges = persisted.edges || {};
+      }
+    } catch (e) {
+      console.error('[Juggl Debug] Failed to load cards', e);
+    }
+  }
+
+  // Adds the cards and edges of an imported canvas. Importing a canvas again replaces its cards.
+  async addCanvas(imported: CanvasImport) {
+    const {cards, edges} = mergeCanvas(this.cards, this.edges, imported);
+    this.cards = cards;
+    this.edges = edges;
+    try {
+      await this.plugin.app.vault.adapter.write(CARDS_PATH(this.plugin.app.vault),
+          JSON.stringify({cards: this.cards, edges: this.edges}));
+    } catch (e) {
+      console.error('[Juggl Debug] Failed to save cards', e);
+    }
+  }
+
+  getEvents(view: IJuggl): DataStoreEvents {
+    return this.events;
+  }
+
+  storeId(): string {
+    return CARD_STORE_ID;
+  }
+
+  nodeDefinition(card: CanvasCard): NodeDefinition {
+    const firstLine = card.text.split('\n').find((line) => line.trim() !== '') || '';
+    return {
+      group: 'nodes',
+      data: {
+        id: new VizId(card.id, this.storeId()).toId(),
+        name: firstLine.length > CARD_LABEL_LENGTH ? firstLine.slice(0, CARD_LABEL_LENGTH) + '…' : firstLine,
+        content: card.text,
+        ...(card.color ? {color: card.color} : {}),
+      },
+      classes: 'card',
+    };
+  }
+
+  edgeDefinition(edge: CanvasEdge): EdgeDefinition {
+    return {
+      group: 'edges',
+      data: {
+        id: `${edge.source}-canvas-${edge.id}->${edge.target}`,
+        source: edge.source,
+        target: edge.target,
+        type: edge.type,
+        ...(edge.color ? {color: edge.color} : {}),
+      },
+      classes: `card-edge type-${edge.type.replace(/\s/g, '-')}`,
+    };
+  }
+
+  async getNeighbourhood(nodeIds: VizId[], viz: IJuggl): Promise<NodeDefinition[]> {
+    const nodes: Record<string, NodeDefinition> = {};
+    const add = (id: string) => {
+      const vizId = VizId.fromId(id);
+      if (vizId.storeId === this.storeId() && vizId.id in this.cards && !(id in nodes)) {
+        nodes[id] = this.nodeDefinition(this.cards[vizId.id]);
+      }
+    };
+    for (const nodeId of nodeIds) {
+      const id = nodeId.toId();
+      add(id);
+      // Cards that are connected to the node on a canvas
+      for (const edge of Object.values(this.edges)) {
+        if (edge.source === id) {
+          add(edge.target);
+        } else if (edge.target === id) {
+          add(edge.source);
+        }
+      }
+    }
+    return Object.values(nodes);
+  }
+
+  async connectNodes(allNodes: NodeCollection, newNodes: NodeCollection, viz: IJuggl): Promise<EdgeDefinition[]> {
+    const newIds = new Set(newNodes.map((node) => node.id()));
+    return Object.values(this.edges)
+        .filter((edge) => newIds.has(edge.source) || newIds.has(edge.target))
+        .filter((edge) => allNodes.$id(edge.source).length > 0 && allNodes.$id(edge.target).length > 0)
+        .map((edge) => this.edgeDefinition(edge));
+  }
+
+  async refreshNode(id: VizId, view: IJuggl): Promise<void> {
+    if (id.storeId !== this.storeId() || !(id.id in this.cards) || !view.viz) {
+      return;
+    }
+    view.viz.$id(id.toId()).data(this.nodeDefinition(this.cards[id.id]).data);
+  }
+}
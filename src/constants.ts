@@ -11,9 +11,13 @@ export const CLASS_PROTECTED = 'protected';
 export const CLASS_CONNECTED_HOVER = 'connected-hover';
 export const CLASS_FILTERED = 'filtered';
 export const CLASS_HARD_FILTERED = 'hard-filtered';
+// Nodes that changed since the workspace they are in was saved
+export const CLASS_CHANGED = 'changed';
+// Elements left out of an image of the graph while it is rendered
+export const CLASS_EXPORT_HIDDEN = 'export-hidden';
 export const CLASSES = [CLASS_PINNED, CLASS_EXPANDED, CLASS_ACTIVE_NODE,
   CLASS_INACTIVE_NODE, CLASS_CONNECTED_ACTIVE_NODE, CLASS_HOVER, CLASS_UNHOVER,
-  CLASS_CONNECTED_HOVER, CLASS_PROTECTED, CLASS_FILTERED, CLASS_HARD_FILTERED];
+  CLASS_CONNECTED_HOVER, CLASS_PROTECTED, CLASS_FILTERED, CLASS_HARD_FILTERED, CLASS_CHANGED];
 
 
 export const VIEWPORT_ANIMATION_TIME = 250;
@@ -30,6 +34,18 @@ export const MAX_FONT_SIZE = 11;
 export const MIN_TEXT_WIDTH = 65;
 export const MAX_TEXT_WIDTH = 100;
 
+export const WORKSPACE_MAX_SNAPSHOTS = 50;
+export const WORKSPACE_MAX_RECENT = 10;
+export const DEBOUNCE_WORKSPACE_SNAPSHOT = 10000;
+export const WORKSPACE_MAX_PATH_HISTORY = 1000;
+export const WORKSPACE_CHANGES_HIGHLIGHT_TIME = 15000;
+
+export const TERMINAL_OUTPUT_MAX_LINES = 1000;
+export const TERMINAL_PREVIEW_LINES = 20;
+export const TERMINAL_PREVIEW_DELAY = 800;
+// Frontmatter key agents write to link the notes they create to their terminal
+export const TERMINAL_CREATED_BY_KEY = 'created_by';
+
 
 export const DATA_FOLDER = function(vault: Vault) {
   return `${vault.configDir}/plugins/juggl/`;
@@ -0,0 +1,149 @@
+// An inverted index of the content of notes, so that queries can match content without keeping every note in the
+// data of the nodes. Words of queries match the words of notes that contain them, like `content:` queries matched the
+// content of nodes before there was an index. Exact matches rank first, then words that start with the query word.
+
+export interface SearchResult {
+  id: string;
+  score: number;
+}
+
+// Parameters of BM25 ranking
+const K1 = 1.2;
+const B = 0.75;
+
+export function tokenize(text: string): string[] {
+  return (text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+export class FullTextIndex {
+  // Word to the documents that contain it, and how often
+  postings: Map<string, Map<string, number>> = new Map();
+  // The distinct words and the number of words of each document
+  docs: Map<string, {words: string[], length: number}> = new Map();
+  totalLength = 0;
+  // Counts changes to the index
+  version = 0;
+  // The version of the last change of each document, including removed documents
+  updated: Map<string, number> = new Map();
+
+  has(id: string): boolean {
+    return this.docs.has(id);
+  }
+
+  add(id: string, text: string) {
+    this.remove(id);
+    const tokens = tokenize(text);
+    const counts: Map<string, number> = new Map();
+    tokens.forEach((token) => counts.set(token, (counts.get(token) || 0) + 1));
+    for (const [word, count] of counts) {
+      if (!this.postings.has(word)) {
+        this.postings.set(word, new Map());
+      }
+      this.postings.get(word).set(id, count);
+    }
+    this.docs.set(id, {words: [...counts.keys()], length: tokens.length});
+    this.totalLength += tokens.length;
+    this.updated.set(id, ++this.version);
+  }
+
+  remove(id: string) {
+    const doc = this.docs.get(id);
+    if (!doc) {
+      return;
+    }
+    for (const word of doc.words) {
+      const posting = this.postings.get(word);
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(word);
+      }
+    }
+    this.docs.delete(id);
+    this.totalLength -= doc.length;
+    this.updated.set(id, ++this.version);
+  }
+
+  clear() {
+    for (const id of [...this.docs.keys()]) {
+      this.remove(id);
+    }
+  }
+
+  rename(oldId: string, newId: string) {
+    const doc = this.docs.get(oldId);
+    if (!doc) {
+      return;
+    }
+    const counts = doc.words.map((word) => this.postings.get(word).get(oldId));
+    this.remove(oldId);
+    doc.words.forEach((word, i) => {
+      if (!this.postings.has(word)) {
+        this.postings.set(word, new Map());
+      }
+      this.postings.get(word).set(newId, counts[i]);
+    });
+    this.docs.set(newId, doc);
+    this.totalLength += doc.length;
+    this.updated.set(newId, ++this.version);
+  }
+
+  // The documents that changed after the version
+  changedSince(version: number): string[] {
+    const changed = [];
+    for (const [id, at] of this.updated) {
+      if (at > version) {
+        changed.push(id);
+      }
+    }
+    return changed;
+  }
+
+  private wordsContaining(token: string): string[] {
+    return [...this.postings.keys()].filter((word) => word.includes(token));
+  }
+
+  // The documents that contain all words of the query, with their BM25 score
+  private scores(query: string): Map<string, number> {
+    const tokens = [...new Set(tokenize(query))];
+    if (tokens.length === 0) {
+      return new Map();
+    }
+    const averageLength = this.totalLength / Math.max(this.docs.size, 1);
+    let scores: Map<string, number> = null;
+    for (const token of tokens) {
+      const tokenScores: Map<string, number> = new Map();
+      for (const word of this.wordsContaining(token)) {
+        const posting = this.postings.get(word);
+        const idf = Math.log(1 + (this.docs.size - posting.size + 0.5) / (posting.size + 0.5));
+        // Exact matches rank above words that start with the token, which rank above words that contain it
+        const weight = word === token ? 1 : word.startsWith(token) ? 0.5 : 0.25;
+        for (const [id, count] of posting) {
+          if (scores && !scores.has(id)) {
+            continue;
+          }
+          const length = this.docs.get(id).length;
+          const tf = count * (K1 + 1) / (count + K1 * (1 - B + B * length / averageLength));
+          tokenScores.set(id, (tokenScores.get(id) || 0) + weight * idf * tf);
+        }
+      }
+      if (scores) {
+        for (const [id, score] of tokenScores) {
+          tokenScores.set(id, score + scores.get(id));
+        }
+      }
+      scores = tokenScores;
+    }
+    return scores;
+  }
+
+  matches(query: string): Set<string> {
+    return new Set(this.scores(query).keys());
+  }
+
+  search(query: string, limit = 20): SearchResult[] {
+    return [...this.scores(query)]
+        .map(([id, score]) => ({id, score}))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+  }
+}
@@ -6,7 +6,7 @@ import {
   IJugglPluginSettings,
   JugglGraphSettingsTab,
   DefaultJugglSettings, LAYOUTS,
-  genStyleGroups, emptyStyleGroup,
+  genStyleGroups, emptyStyleGroup, emptyEdgeStyleGroup, emptyAgentProfile,
 } from './settings';
 import {Juggl} from './viz/visualization';
 import {ImageServer} from './image-server';
@@ -19,6 +19,8 @@ import type {
 } from 'juggl-api';
 import {OBSIDIAN_STORE_NAME, ObsidianStore} from './obsidian-store';
 import {TerminalDataStore} from './terminal-store';
+import {JUGGL_TERMINAL_VIEW_TYPE, JugglTerminalView} from './terminal-view';
+import {CardStore} from './card-store';
 import cytoscape, {NodeSingular} from 'cytoscape';
 import navigator from 'cytoscape-navigator';
 import popper from 'cytoscape-popper';
@@ -33,6 +35,14 @@ import {STYLESHEET_PATH} from './viz/stylesheet';
 import {JugglView} from './viz/juggl-view';
 import {JugglNodesPane, JugglPane, JugglStylePane} from './pane/view';
 import {WorkspaceManager} from './viz/workspaces/workspace-manager';
+import {WorkspaceModal} from './ui/workspace-modal';
+import {WorkspaceSuggestModal} from './ui/workspace-suggest-modal';
+import {CanvasSuggestModal} from './ui/canvas-suggest-modal';
+import {parseManifest} from './viz/workspaces/workspace-manifest';
+import {emptySavedQuery, findSavedQuery, withSavedQuery} from './viz/saved-queries';
+import {SavedQueryModal, SavedQuerySuggestModal} from './ui/saved-query-modal';
+import {ContentSearchModal} from './ui/content-search-modal';
+import {WORKSPACE_BLOCK} from './viz/workspaces/workspace-note';
 import {JUGGL_NODES_VIEW_TYPE, JUGGL_STYLE_VIEW_TYPE, JUGGL_VIEW_TYPE, VizId} from 'juggl-api';
 import type {FSWatcher} from 'fs';
 import {GlobalWarningModal} from './ui/settings/global-graph-modal';
@@ -57,6 +67,7 @@ export default class JugglPlugin extends Plugin implements IJugglPlugin {
     coreStores: Record<string, ICoreDataStore> = {};
     stores: IDataStore[] = [];
     terminalStore: TerminalDataStore;
+    cardStore: CardStore;
     workspaceManager: WorkspaceManager;
     watcher: FSWatcher;
     ribbonIcon: HTMLElement;
@@ -86,6 +97,10 @@ export default class JugglPlugin extends Plugin implements IJugglPlugin {
       this.terminalStore = new TerminalDataStore(this);
       this.addChild(this.terminalStore);
       this.registerStore(this.terminalStore);
+      // Register the store of cards imported from canvases
+      this.cardStore = new CardStore(this);
+      this.addChild(this.cardStore);
+      this.registerStore(this.cardStore);
       
       this.workspaceManager = new WorkspaceManager(this);
       this.addChild(this.workspaceManager);
@@ -95,6 +110,15 @@ export default class JugglPlugin extends Plugin implements IJugglPlugin {
       this.settings = Object.assign({}, DefaultJugglSettings, await this.loadData());
       this.settings.globalStyleGroups = this.settings.globalStyleGroups.map((g) =>
         Object.assign({}, emptyStyleGroup, g));
+      this.settings.globalEdgeStyleGroups = this.settings.globalEdgeStyleGroups.map((g) =>
+        Object.assign({}, emptyEdgeStyleGroup, g));
+      this.settings.agentProfiles = this.settings.agentProfiles.map((p) =>
+        Object.assign({}, emptyAgentProfile, p, {env: {...p.env}, icon: {...emptyAgentProfile.icon, ...p.icon}}));
+      this.settings.savedQueries = this.settings.savedQueries.map((q) =>
+        Object.assign({}, emptySavedQuery, q, {
+          styleGroups: (q.styleGroups || []).map((g) => Object.assign({}, emptyStyleGroup, g)),
+          edgeStyleGroups: (q.edgeStyleGroups || []).map((g) => Object.assign({}, emptyEdgeStyleGroup, g)),
+        }));
       this.settings.graphSettings = Object.assign({}, DefaultJugglSettings.graphSettings, this.settings.graphSettings);
       this.settings.embedSettings = Object.assign({}, DefaultJugglSettings.embedSettings, this.settings.embedSettings);
 
@@ -117,6 +141,74 @@ export default class JugglPlugin extends Plugin implements IJugglPlugin {
           this.openGlobalGraph();
         },
       });
+      this.addCommand({
+        id: 'open-workspace',
+        name: 'Open workspace',
+        callback: () => {
+          new WorkspaceSuggestModal(this.app, this.workspaceManager, (name) => this.openWorkspace(name)).open();
+        },
+      });
+      this.addCommand({
+        id: 'open-last-workspace',
+        name: 'Open last opened workspace',
+        checkCallback: (checking: boolean) => {
+          const last = this.workspaceManager.recentGraphs()[0];
+          if (checking) {
+            return !!last;
+          }
+          this.openWorkspace(last);
+        },
+      });
+      this.addCommand({
+        id: 'import-canvas',
+        name: 'Import canvas as workspace',
+        callback: () => {
+          new CanvasSuggestModal(this.app, (file) => this.importCanvas(file)).open();
+        },
+      });
+      this.addCommand({
+        id: 'apply-saved-query',
+        name: 'Apply saved query',
+        checkCallback: (checking: boolean) => {
+          const view = this.app.workspace.getActiveViewOfType(JugglView);
+          if (checking) {
+            return !!view?.juggl && this.settings.savedQueries.length > 0;
+          }
+          new SavedQuerySuggestModal(this.app, this.settings.savedQueries,
+              (query) => view.juggl.applySavedQuery(query)).open();
+        },
+      });
+      this.addCommand({
+        id: 'save-query',
+        name: 'Save current view as query',
+        checkCallback: (checking: boolean) => {
+          const view = this.app.workspace.getActiveViewOfType(JugglView);
+          if (checking) {
+            return !!view?.juggl;
+          }
+          new SavedQueryModal(this.app, this, view.juggl).open();
+        },
+      });
+      this.addCommand({
+        id: 'search-content',
+        name: 'Search note contents',
+        checkCallback: (checking: boolean) => {
+          if (checking) {
+            return this.settings.indexContent;
+          }
+          const view = this.app.workspace.getActiveViewOfType(JugglView);
+          new ContentSearchModal(this.app, this, obsidianStore, view?.juggl).open();
+        },
+      });
+      this.addCommand({
+        id: 'manage-workspaces',
+        name: 'Manage workspaces',
+        callback: () => {
+          // Workspaces can only be saved from an open workspace graph
+          const view = this.app.workspace.getActiveViewOfType(JugglView);
+          new WorkspaceModal(this.app, this.workspaceManager, view?.juggl).open();
+        },
+      });
 
       this.addSettingTab(new JugglGraphSettingsTab(this.app, this));
 
@@ -134,6 +226,12 @@ export default class JugglPlugin extends Plugin implements IJugglPlugin {
                 }
               });
         });
+        if (file.extension === 'canvas') {
+          menu.addItem((item) => {
+            item.setTitle('Import canvas in Juggl').setIcon('dot-network')
+                .onClick((evt) => this.importCanvas(file));
+          });
+        }
       }));
 
 
@@ -143,7 +241,16 @@ export default class JugglPlugin extends Plugin implements IJugglPlugin {
         setTimeout(async () => {
           const parsed = parseYaml(src);
           try {
-            const settings = Object.assign({}, this.settings.embedSettings, parsed);
+            let settings = Object.assign({}, this.settings.embedSettings, parsed);
+            if (Object.keys(parsed).contains('query')) {
+              const query = findSavedQuery(this.settings.savedQueries, parsed.query);
+              if (!query) {
+                throw new Error('Did not recognize saved query. Did you misspell its name?');
+              }
+              // Options of the code block override those of the saved query
+              settings = Object.assign(withSavedQuery(settings, query), parsed);
+              delete settings.query;
+            }
             if (!(LAYOUTS.contains(settings.layout))) {
               throw new Error(`Invalid layout. Choose one from ${LAYOUTS}`);
             }
@@ -172,8 +279,12 @@ export default class JugglPlugin extends Plugin implements IJugglPlugin {
               } else {
                 throw new Error('The Obsidian Query Language plugin isn\'t loaded, so cannot query using oql!');
               }
+            } else if (Object.keys(parsed).contains('query')) {
+              // Show the nodes of the whole vault that match the saved query
+              settings.expandInitial = false;
+              this.addChild(new Juggl(el, this, stores, settings, await this.matchVault(settings, stores)));
             } else {
-              throw new Error('Invalid query. Specify either the local property or the workspace property.');
+              throw new Error('Invalid query. Specify either the local, workspace or query property.');
             }
           } catch (error) {
             // taken from https://github.com/jplattel/obsidian-query-language/blob/main/src/renderer.ts
@@ -184,11 +295,32 @@ export default class JugglPlugin extends Plugin implements IJugglPlugin {
           }
         }, 200);
       });
+      // Renders the graph block of workspaces saved as notes
+      this.registerMarkdownCodeBlockProcessor(WORKSPACE_BLOCK, (src, el) => {
+        try {
+          const manifest = parseManifest(JSON.parse(src));
+          const card = el.createDiv({cls: 'juggl-workspace-card'});
+          card.createEl('strong', {text: manifest.name});
+          card.createDiv({
+            cls: 'juggl-workspace-card-info',
+            text: `${manifest.graph.elements.nodes?.length || 0} nodes, ` +
+              `${manifest.graph.elements.edges?.length || 0} edges. ` +
+              `Saved ${new Date(manifest.savedAt).toLocaleString()}`,
+          });
+          card.createEl('button', {text: 'Open workspace', cls: 'mod-cta'})
+              .addEventListener('click', () => this.openWorkspace(manifest.name));
+        } catch (error) {
+          const errorElement = el.createDiv({cls: 'juggl-error'});
+          errorElement.innerText = `Invalid workspace: ${error.message}`;
+        }
+      });
       const plugin = this;
 
       // Adapted from https://github.com/liamcain/obsidian-calendar-plugin/blob/master/src/main.ts
       this.registerView(JUGGL_NODES_VIEW_TYPE, (leaf: WorkspaceLeaf) => new JugglNodesPane(leaf, plugin));
       this.registerView(JUGGL_STYLE_VIEW_TYPE, (leaf: WorkspaceLeaf) => new JugglStylePane(leaf, plugin));
+      this.registerView(JUGGL_TERMINAL_VIEW_TYPE,
+          (leaf: WorkspaceLeaf) => new JugglTerminalView(leaf, plugin.terminalStore));
       const createNodesPane = function() {
         if (plugin.app.workspace.getLeavesOfType(JUGGL_NODES_VIEW_TYPE).length === 0) {
           const leaf = plugin.app.workspace.getRightLeaf(false);
@@ -288,16 +420,19 @@ export default class JugglPlugin extends Plugin implements IJugglPlugin {
         return;
       }
       
+      if (this.terminalStore.isSessionId(id.id)) {
+        this.terminalStore.toggleSession(id.id);
+        return;
+      }
+
       const terminal = this.terminalStore.terminals.get(id.id);
       if (!terminal) {
         console.error(`[Juggl] Terminal not found: ${id.id}`);
         return;
       }
 
-      const file = terminal.sourceFile ? this.app.metadataCache.getFirstLinkpathDest(terminal.sourceFile, '') : null;
-      
-      // Use the terminal store to spawn the terminal
-      await this.terminalStore.spawnTerminalInLeaf(id.id, file);
+      // Use the terminal store to spawn the terminal. This also brings back terminals restored as inactive.
+      await this.terminalStore.respawnTerminal(id.id);
     }
 
     public async openFile(file: TFile, newLeaf=false) {
@@ -328,6 +463,34 @@ export default class JugglPlugin extends Plugin implements IJugglPlugin {
       }
     }
 
+    // Opens an empty Juggl view in workspace mode, and resolves when its graph is ready
+    async openWorkspaceView(): Promise<Juggl> {
+      const leaf = this.app.workspace.getLeaf(true);
+      const settings = Object.assign({}, this.settings.graphSettings, {mode: 'workspace'});
+      const view = new JugglView(leaf, settings, this, null);
+      await leaf.open(view);
+      const graph = view.juggl;
+      if (!graph.vizReady) {
+        await new Promise<void>((resolve) => {
+          const ref = graph.on('vizReady', () => {
+            graph.offref(ref);
+            resolve();
+          });
+        });
+      }
+      return graph;
+    }
+
+    // Opens a saved workspace in a new Juggl view
+    async openWorkspace(name: string) {
+      await this.workspaceManager.loadGraph(name, await this.openWorkspaceView());
+    }
+
+    // Opens a canvas in a new Juggl view. It can then be saved as a workspace.
+    async importCanvas(file: TFile) {
+      await this.workspaceManager.importCanvas(file, await this.openWorkspaceView());
+    }
+
     public activeGraphs(): IJuggl[] {
       // TODO: This is not a great method, no way to find back the inline graphs!
       return this.app.workspace
@@ -374,6 +537,15 @@ export default class JugglPlugin extends Plugin implements IJugglPlugin {
       return new Juggl(el, this, datastores, settings, initialNodes);
     }
 
+    // The ids of the nodes of the vault that match the filter of the settings, so that graphs of queries only load
+    // the nodes that match
+    public async matchVault(settings: IJugglSettings, stores: IJugglStores): Promise<string[]> {
+      if (!(stores.coreStore instanceof ObsidianStore)) {
+        throw new Error('Queries can only be matched against the notes of the vault.');
+      }
+      return await stores.coreStore.queryVault(settings.filter);
+    }
+
     public defaultStores(): IJugglStores {
       return {
         dataStores: [this.coreStores[OBSIDIAN_STORE_NAME] as IDataStore].concat(this.stores),
@@ -7,15 +7,21 @@ import {
     TFile,
     Vault,
 } from 'obsidian';
-import type {ICoreDataStore, IMergedToGraph, IJuggl} from 'juggl-api';
+import type {ICoreDataStore, IMergedToGraph, IJuggl, IJugglSettings} from 'juggl-api';
 import {DataStoreEvents} from './events';
 import type JugglPlugin from './main';
+import cytoscape from 'cytoscape';
 import type {
+    Core,
     NodeDefinition,
     EdgeDefinition,
     NodeCollection, EdgeDataDefinition,
 } from 'cytoscape';
 import {CLASS_EXPANDED} from './constants';
+import {FullTextIndex} from './full-text-index';
+import {QueryIndex} from './viz/query-index';
+import {compileQuery} from './viz/query-builder';
+import {WORKSPACE_NAME_KEY} from './viz/workspaces/workspace-note';
 import {nodeDangling, nodeFromFile, parseRefCache, VizId} from 'juggl-api';
 
 export const OBSIDIAN_STORE_NAME = 'Obsidian';
@@ -30,10 +36,19 @@ export class ObsidianStore extends Component implements ICoreDataStore {
     events: DataStoreEvents;
     metadata: MetadataCache;
     vault: Vault
+    // The content of the notes, for content queries. Empty if indexing content is disabled.
+    contentIndex: FullTextIndex;
+    // A headless graph of all notes of the vault, which query code blocks are matched against. It is built when it
+    // is first queried, and the notes that changed since are updated when it is queried again.
+    private vaultIndex: Promise<QueryIndex> | null = null;
+    // The links between the notes are only added once a structural query needs them
+    private vaultLinked = false;
+    private staleVaultPaths: Set<string> = new Set();
     constructor(plugin: JugglPlugin) {
       super();
       this.plugin = plugin;
       this.events = new DataStoreEvents();
+      this.contentIndex = new FullTextIndex();
       this.metadata = plugin.app.metadataCache;
       this.vault = plugin.app.vault;
     }
@@ -183,12 +198,21 @@ ${edge.data.context}`;
       const path = getLinkpath(link.link);
       const file = this.metadata.getFirstLinkpathDest(path, sourcePath);
       if (file) {
-        return await nodeFromFile(file, this.plugin, graph.settings);
+        return await this.fileNode(file, graph.settings);
       } else {
         return nodeDangling(path);
       }
     }
 
+    // Adds the stats of the file to its node, so that queries can compare them
+    async fileNode(file: TFile, settings: IJugglSettings): Promise<NodeDefinition> {
+      const node = await nodeFromFile(file, this.plugin, settings);
+      node.data.size = file.stat.size;
+      node.data.ctime = new Date(file.stat.ctime).toISOString();
+      node.data.mtime = new Date(file.stat.mtime).toISOString();
+      return node;
+    }
+
     getFile(nodeId: VizId): TFile | null {
       return this.metadata.getFirstLinkpathDest(nodeId.id, '');
     }
@@ -208,7 +232,7 @@ ${edge.data.context}`;
             const file = this.vault.getAbstractFileByPath(otherPath) as TFile;
             const id = VizId.fromFile(file).toId();
             if (!(id in nodes)) {
-              nodes[id] = await nodeFromFile(file, this.plugin, graph.settings);
+              nodes[id] = await this.fileNode(file, graph.settings);
             }
           }
         }
@@ -239,7 +263,7 @@ ${edge.data.context}`;
             continue;
           }
           if (!(nodeId.toId() in nodes)) {
-            nodes[nodeId.toId()] = await nodeFromFile(file, this.plugin, viz.settings);
+            nodes[nodeId.toId()] = await this.fileNode(file, viz.settings);
           }
           const promiseNodes: Record<string, Promise<NodeDefinition>> = {};
           this.iterLinks(cache, (ref, _) => {
@@ -273,7 +297,7 @@ ${edge.data.context}`;
         console.log('returning empty cache', nodeId, view);
         return Promise.resolve(null);
       }
-      return Promise.resolve(nodeFromFile(file, this.plugin, view.settings));
+      return this.fileNode(file, view.settings);
     }
 
     async refreshNode(id: VizId, view: IJuggl) {
@@ -354,11 +378,104 @@ ${edge.data.context}`;
       }
     }
 
+    getContentIndex(): FullTextIndex {
+      return this.contentIndex;
+    }
+
+    // The ids of the notes of the vault that match the query
+    async queryVault(query: string): Promise<string[]> {
+      const view = {settings: this.plugin.settings.embedSettings} as IJuggl;
+      if (!this.vaultIndex) {
+        this.vaultIndex = this.buildVaultIndex(view);
+      }
+      const index = await this.vaultIndex;
+      const cy = index.cy;
+      await this.updateVaultGraph(cy, view);
+      if (compileQuery(query).structural && !this.vaultLinked) {
+        // Structural queries, like the neighbours of a note, need the links between the notes
+        this.vaultLinked = true;
+        cy.add(await this.connectNodes(cy.nodes(), cy.nodes(), view));
+      }
+      return index.match(query).map((node) => VizId.fromNode(node).id);
+    }
+
+    private async buildVaultIndex(view: IJuggl): Promise<QueryIndex> {
+      this.staleVaultPaths.clear();
+      const nodes = await Promise.all(this.vault.getFiles().map((file) => this.get(VizId.fromFile(file), view)));
+      const cy = cytoscape({headless: true, elements: nodes.filter((node): node is NodeDefinition => !!node)});
+      return new QueryIndex(cy, this.contentIndex);
+    }
+
+    private async updateVaultGraph(cy: Core, view: IJuggl) {
+      const paths = [...this.staleVaultPaths];
+      this.staleVaultPaths.clear();
+      for (const path of paths) {
+        const file = this.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+          // The note was deleted or renamed
+          cy.$id(VizId.fromPath(path).toId()).remove();
+          continue;
+        }
+        const id = VizId.fromFile(file);
+        const nodeDef = await this.get(id, view);
+        if (!nodeDef) {
+          continue;
+        }
+        let node = cy.$id(id.toId());
+        if (node.length > 0) {
+          node.removeData();
+          node.data(nodeDef.data);
+          node.classes(nodeDef.classes || []);
+          if (this.vaultLinked) {
+            node.outgoers('edge').remove();
+            cy.add(await this.createEdges(file, node.id(), cy.nodes(), view));
+          }
+        } else {
+          node = cy.add(nodeDef);
+          if (this.vaultLinked) {
+            cy.add(await this.connectNodes(cy.nodes(), node, view));
+          }
+        }
+      }
+    }
+
+    async indexContent() {
+      for (const file of this.vault.getMarkdownFiles()) {
+        try {
+          this.indexFile(file, await this.vault.cachedRead(file), this.metadata.getFileCache(file));
+        } catch (e) {
+          console.error('[Juggl Debug] Failed to index content of', file.path, e);
+        }
+      }
+    }
+
+    // Workspace notes are left out: they contain their whole graph, so they would match most content queries
+    indexFile(file: TFile, content: string, cache: CachedMetadata | null) {
+      const id = VizId.fromFile(file).toId();
+      if (cache?.frontmatter?.[WORKSPACE_NAME_KEY]) {
+        this.contentIndex.remove(id);
+      } else {
+        this.contentIndex.add(id, content);
+      }
+    }
+
     onload() {
       super.onload();
       const store = this;
+      // Settings are loaded after the store
+      this.plugin.app.workspace.onLayoutReady(() => {
+        if (store.plugin.settings.indexContent) {
+          store.indexContent();
+        }
+      });
       this.registerEvent(
-          this.metadata.on('changed', (file) => {
+          this.metadata.on('changed', (file, data, cache) => {
+            if (store.plugin.settings.indexContent) {
+              store.indexFile(file, data, cache);
+            }
+            if (store.vaultIndex) {
+              store.staleVaultPaths.add(file.path);
+            }
             store.plugin.activeGraphs().forEach(async (v) => {
               if (!v) {
                 // console.warn('[Juggl Debug] metadata changed - view is null/undefined');
@@ -376,6 +493,10 @@ ${edge.data.context}`;
             if (file instanceof TFile) {
               const id = VizId.fromFile(file);
               const oldId = VizId.fromPath(oldPath);
+              store.contentIndex.rename(oldId.toId(), id.toId());
+              if (store.vaultIndex) {
+                store.staleVaultPaths.add(oldPath).add(file.path);
+              }
               store.plugin.activeGraphs().forEach(async (v) => {
                 setTimeout(async ()=> {
                   // Changing the ID of a node in Cytoscape is not allowed, so remove and then restore.
@@ -397,6 +518,10 @@ ${edge.data.context}`;
       this.registerEvent(
           this.vault.on('delete', (file) => {
             if (file instanceof TFile) {
+              store.contentIndex.remove(VizId.fromFile(file).toId());
+              if (store.vaultIndex) {
+                store.staleVaultPaths.add(file.path);
+              }
               store.plugin.activeGraphs().forEach((v) => {
                 if (!v) {
                   console.warn('[Juggl Debug] delete handler - view is null/undefined');
@@ -411,4 +536,10 @@ ${edge.data.context}`;
             }
           }));
     }
+
+    onunload() {
+      super.onunload();
+      this.vaultIndex?.then((index) => index.cy.destroy());
+      this.vaultIndex = null;
+    }
 }
@@ -0,0 +1,159 @@
+import type { ChildProcess } from 'child_process';
+import { Events, Platform } from 'obsidian';
+import type { EventRef } from 'obsidian';
+
+export interface PtySpawnOptions {
+    cwd: string;
+    env?: Record<string, string>;
+    shell?: string;
+    // Size of the pseudo-terminal, which full-screen programs like agents draw to
+    cols?: number;
+    rows?: number;
+}
+
+// How much raw output is kept per session, to replay it in views that are opened later
+const HISTORY_MAX_LENGTH = 200000;
+
+/**
+ * Owns the shell processes behind terminal nodes, so that input can be written to their stdin.
+ *
+ * Writing to the xterm.js instance of the Terminal plugin only paints the screen, it never reaches
+ * the shell. Instead, we spawn the shell ourselves. Node has no native pseudo-terminal support,
+ * so on Linux and macOS the shell is wrapped in `script`, which allocates one. This keeps
+ * interactive programs like coding agents in TTY mode. On Windows the shell is spawned directly.
+ * Terminal views show these shells: they replay their output and write what is typed to their stdin.
+ */
+export class PtyBridge extends Events {
+    sessions: Map<string, ChildProcess> = new Map();
+    // Raw output of each session, including escape sequences
+    histories: Map<string, string> = new Map();
+
+    static isSupported(): boolean {
+        return Platform.isDesktopApp;
+    }
+
+    has(terminalId: string): boolean {
+        return this.sessions.has(terminalId);
+    }
+
+    spawn(terminalId: string, options: PtySpawnOptions): boolean {
+        if (!PtyBridge.isSupported()) {
+            console.warn('[Juggl Debug] PTY bridge is only available on desktop.');
+            return false;
+        }
+        if (this.sessions.has(terminalId)) {
+            return true;
+        }
+        const { spawn } = require('child_process');
+        const shell = options.shell || process.env.SHELL || (Platform.isWin ? 'powershell.exe' : '/bin/bash');
+        // `script` can't be told the size of the terminal it allocates, so the shell sets it itself
+        const quotedShell = `'${shell.replace(/'/g, `'\\''`)}'`;
+        const sized = `stty cols ${options.cols || 120} rows ${options.rows || 30} 2>/dev/null; exec ${quotedShell}`;
+        let command: string;
+        let args: string[];
+        if (Platform.isWin) {
+            command = shell;
+            args = [];
+        } else if (Platform.isMacOS) {
+            command = 'script';
+            args = ['-q', '/dev/null', '/bin/sh', '-c', sized];
+        } else {
+            command = 'script';
+            args = ['-qfec', sized, '/dev/null'];
+        }
+
+        let child: ChildProcess;
+        try {
+            child = spawn(command, args, {
+                cwd: options.cwd,
+                env: Object.assign({}, process.env, { TERM: 'xterm-256color' }, options.env),
+                stdio: 'pipe',
+            });
+        } catch (e) {
+            console.error(`[Juggl Debug] Failed to spawn PTY for ${terminalId}:`, e);
+            return false;
+        }
+        this.sessions.set(terminalId, child);
+        this.histories.set(terminalId, '');
+        console.log(`[Juggl Debug] Spawned PTY for ${terminalId} (pid ${child.pid}) in ${options.cwd}`);
+        this.trigger('spawn', terminalId);
+
+        const onData = (chunk: Buffer) => {
+            // Output of a session that was replaced by a restart is dropped
+            if (this.sessions.get(terminalId) !== child) {
+                return;
+            }
+            const data = chunk.toString();
+            this.histories.set(terminalId, ((this.histories.get(terminalId) || '') + data).slice(-HISTORY_MAX_LENGTH));
+            this.trigger('data', terminalId, data);
+        };
+        child.stdout.on('data', onData);
+        child.stderr.on('data', onData);
+        child.on('error', (error: Error) => {
+            console.error(`[Juggl Debug] PTY error for ${terminalId}:`, error);
+        });
+        child.on('exit', (code: number | null) => {
+            // Sessions stopped through kill() are already gone, and may have been replaced by a restart
+            if (this.sessions.get(terminalId) !== child) {
+                return;
+            }
+            this.sessions.delete(terminalId);
+            this.trigger('exit', terminalId, code);
+        });
+        return true;
+    }
+
+    // The output of the running or last session of the terminal
+    history(terminalId: string): string {
+        return this.histories.get(terminalId) || '';
+    }
+
+    // Writes raw text to the stdin of the terminal's shell.
+    sendInput(terminalId: string, text: string): boolean {
+        const child = this.sessions.get(terminalId);
+        if (!child || !child.stdin.writable) {
+            console.error(`[Juggl Debug] No running PTY for terminal ${terminalId}.`);
+            return false;
+        }
+        child.stdin.write(text);
+        return true;
+    }
+
+    // Types the command and presses Enter.
+    runCommand(terminalId: string, cmd: string): boolean {
+        return this.sendInput(terminalId, cmd + (Platform.isWin ? '\r\n' : '\r'));
+    }
+
+    // Runs the command and then exits the shell with the exit code of the command.
+    runCommandAndExit(terminalId: string, cmd: string): boolean {
+        return this.runCommand(terminalId, Platform.isWin ? `${cmd}; exit $LASTEXITCODE` : `${cmd}; exit $?`);
+    }
+
+    kill(terminalId: string): void {
+        const child = this.sessions.get(terminalId);
+        if (child) {
+            child.kill();
+            this.sessions.delete(terminalId);
+        }
+    }
+
+    killAll(): void {
+        for (const terminalId of [...this.sessions.keys()]) {
+            this.kill(terminalId);
+        }
+    }
+
+    trigger(name: 'spawn', terminalId: string): void;
+    trigger(name: 'data', terminalId: string, data: string): void;
+    trigger(name: 'exit', terminalId: string, code: number | null): void;
+    trigger(name: string, ...data: any[]): void {
+        super.trigger(name, ...data);
+    }
+
+    public on(name: 'spawn', callback: (terminalId: string) => any, ctx?: any): EventRef;
+    public on(name: 'data', callback: (terminalId: string, data: string) => any, ctx?: any): EventRef;
+    public on(name: 'exit', callback: (terminalId: string, code: number | null) => any, ctx?: any): EventRef;
+    on(name: string, callback: (...data: any[]) => any, ctx?: any): EventRef {
+        return super.on(name, callback, ctx);
+    }
+}
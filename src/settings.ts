@@ -2,6 +2,7 @@ import {App, PluginSettingTab, Setting, SplitDirection, TagCache} from 'obsidian
 
 import type JugglPlugin from './main';
 import {OBSIDIAN_STORE_NAME} from './obsidian-store';
+import type {ObsidianStore} from './obsidian-store';
 import AppearanceSettings from './ui/settings/AppearanceSettings.svelte';
 
 export const LAYOUTS = ['force-directed', 'circle', 'grid', 'hierarchy', 'cola'];
@@ -11,8 +12,13 @@ export type CytoscapeLayouts = FDGDLayouts | 'concentric' | 'grid' | 'dagre';
 export type JugglMode = 'local' | 'workspace';
 export type AllLayouts = CytoscapeLayouts | JugglLayouts;
 import KoFi from './ui/KoFi.svelte';
-import type {IJugglSettings, StyleGroup} from 'juggl-api';
+import type {Icon, IJugglSettings, StyleGroup} from 'juggl-api';
 import {getGraphColor} from './viz/stylesheet';
+import {IconModal} from './pane/icon-modal';
+import {pathToSvg} from './ui/icons';
+import type {TerminalBackendId} from './terminal-backend';
+import {emptySavedQuery} from './viz/saved-queries';
+import type {SavedQuery} from './viz/saved-queries';
 
 export const emptyStyleGroup: StyleGroup = {filter: '',
   color: 'black',
@@ -21,6 +27,34 @@ export const emptyStyleGroup: StyleGroup = {filter: '',
   showInPane: true,
   show: true,
   size: 1.0};
+
+// Style groups for edges, like the typed links of notes. Filters are edge queries.
+export interface EdgeStyleGroup {
+  filter: string;
+  color: string;
+  // Relative to the default width of edges
+  width: number;
+  lineStyle: 'solid' | 'dotted' | 'dashed';
+  // Shape of the arrow at the target
+  arrow: string;
+  showInPane: boolean;
+  show: boolean;
+}
+
+export const emptyEdgeStyleGroup: EdgeStyleGroup = {filter: '',
+  color: 'gray',
+  width: 1.0,
+  lineStyle: 'solid',
+  arrow: 'vee',
+  showInPane: true,
+  show: true};
+
+// The settings of a graph, with the settings Juggl adds to those of the API. Graphs saved before edge style groups
+// have none.
+export interface JugglGraphSettings extends IJugglSettings {
+  edgeStyleGroups?: EdgeStyleGroup[];
+}
+
 export const genStyleGroups = function(plugin: JugglPlugin): StyleGroup[] {
   const tagColorMap = {} as Record<string, string>;
 
@@ -127,29 +161,85 @@ export const genStyleGroups = function(plugin: JugglPlugin): StyleGroup[] {
 };
 
 
+// Where an agent's shell starts: the folder of the note it is spawned from, the vault root or a fixed directory.
+export type WorkingDirStrategy = 'note-folder' | 'vault-root' | 'custom';
+
+export interface AgentProfile {
+    name: string;
+    // Command that launches the agent. Supports the same placeholders as the terminal command.
+    command: string;
+    env: Record<string, string>;
+    workingDir: WorkingDirStrategy;
+    // Absolute or vault-relative directory, used when workingDir is 'custom'
+    customDir: string;
+    icon: Icon;
+    color: string;
+}
+
+export const emptyAgentProfile: AgentProfile = {
+  name: '',
+  command: '',
+  env: {},
+  workingDir: 'note-folder',
+  customDir: '',
+  icon: {name: 'No icon', path: '', color: 'white'},
+  color: '#4fd1c7',
+};
+
+export const DEFAULT_AGENT_PROFILES: AgentProfile[] = [
+  {...emptyAgentProfile, name: 'Claude', command: 'claude', color: '#d97757'},
+  {...emptyAgentProfile, name: 'Gemini', command: 'gemini', color: '#4285f4'},
+];
+
+export const DEFAULT_SAVED_QUERIES: SavedQuery[] = [
+  {...emptySavedQuery, name: 'Open agent sessions', filter: 'class:terminal-active OR class:terminal-queued'},
+];
+
 export interface IJugglPluginSettings {
     terminalCommand: string;
+    terminalBackend: TerminalBackendId;
+    agentProfiles: AgentProfile[];
+    maxConcurrentAgents: number;
+    groupTerminalsBySource: boolean;
     typedLinkPrefix: string;
     splitDirection: SplitDirection; // 'horizontal';
     globalGraphRibbon: boolean;
     useImgServer: boolean;
     imgServerPort: number;
     debug: boolean;
-    graphSettings: IJugglSettings;
-    globalGraphSettings: IJugglSettings;
-    embedSettings: IJugglSettings;
+    autoSnapshotWorkspaces: boolean;
+    recentWorkspaces: string[];
+    workspacesAsNotes: boolean;
+    workspaceNotesFolder: string;
+    indexContent: boolean;
+    graphSettings: JugglGraphSettings;
+    globalGraphSettings: JugglGraphSettings;
+    embedSettings: JugglGraphSettings;
     globalStyleGroups: StyleGroup[];
+    globalEdgeStyleGroups: EdgeStyleGroup[];
+    savedQueries: SavedQuery[];
 }
 
 
 export const DefaultJugglSettings: IJugglPluginSettings = {
   terminalCommand: '',
+  terminalBackend: 'auto',
+  agentProfiles: DEFAULT_AGENT_PROFILES,
+  maxConcurrentAgents: 3,
+  groupTerminalsBySource: false,
   splitDirection: 'vertical',
   typedLinkPrefix: '-',
   useImgServer: false,
   imgServerPort: 3837,
   debug: false,
+  autoSnapshotWorkspaces: true,
+  recentWorkspaces: [],
+  workspacesAsNotes: false,
+  workspaceNotesFolder: 'Juggl workspaces',
+  indexContent: false,
   globalStyleGroups: [],
+  globalEdgeStyleGroups: [],
+  savedQueries: DEFAULT_SAVED_QUERIES,
   globalGraphRibbon: true,
   graphSettings: {
     // TODO: Not currently used anywhere
@@ -171,6 +261,7 @@ export const DefaultJugglSettings: IJugglPluginSettings = {
     openWithShift: false,
     readContent: true,
     styleGroups: [],
+    edgeStyleGroups: [],
     toolbar: true,
     width: '100%',
     zoomSpeed: 1,
@@ -196,6 +287,7 @@ export const DefaultJugglSettings: IJugglPluginSettings = {
     openWithShift: false,
     readContent: true,
     styleGroups: [],
+    edgeStyleGroups: [],
     toolbar: false,
     width: '100%',
     zoomSpeed: 1,
@@ -221,6 +313,7 @@ export const DefaultJugglSettings: IJugglPluginSettings = {
     openWithShift: false,
     readContent: false,
     styleGroups: [],
+    edgeStyleGroups: [],
     toolbar: true,
     zoomSpeed: 1,
     enableLocalElasticity: true,
@@ -425,17 +518,23 @@ export class JugglGraphSettingsTab extends PluginSettingTab {
                 });
           });
 
-      // new Setting(containerEl)
-      //     .setName('Index note content')
-      //     .setDesc('This will full-text index the content of notes. ' +
-      //           'This allows searching within notes using the Neo4j Bloom search bar. However, it could decrease performance.')
-      //     .addToggle((toggle) => {
-      //       toggle.setValue(this.plugin.settings.indexContent)
-      //           .onChange((new_value) => {
-      //             this.plugin.settings.indexContent = new_value;
-      //             this.plugin.saveData(this.plugin.settings);
-      //           });
-      //     });
+      new Setting(containerEl)
+          .setName('Index note content')
+          .setDesc('Keep a full-text index of the content of notes, so that content: and text: queries match ' +
+                'notes without reading their content into the graph, and notes can be searched by content.')
+          .addToggle((toggle) => {
+            toggle.setValue(this.plugin.settings.indexContent)
+                .onChange((new_value) => {
+                  this.plugin.settings.indexContent = new_value;
+                  this.plugin.saveData(this.plugin.settings);
+                  const store = this.plugin.coreStores[OBSIDIAN_STORE_NAME] as ObsidianStore;
+                  if (new_value) {
+                    store.indexContent();
+                  } else {
+                    store.contentIndex.clear();
+                  }
+                });
+          });
 
       new Setting(containerEl)
           .setName('Typed links prefix')
@@ -483,6 +582,41 @@ export class JugglGraphSettingsTab extends PluginSettingTab {
                 });
           });
 
+      new Setting(containerEl)
+          .setName('Snapshot workspaces automatically')
+          .setDesc('Add a snapshot to the history of a saved workspace when nodes or edges are added or removed. ' +
+              'Snapshots are always made when saving.')
+          .addToggle((toggle) => {
+            toggle.setValue(this.plugin.settings.autoSnapshotWorkspaces)
+                .onChange((new_value) => {
+                  this.plugin.settings.autoSnapshotWorkspaces = new_value;
+                  this.plugin.saveData(this.plugin.settings);
+                });
+          });
+
+      new Setting(containerEl)
+          .setName('Save workspaces as notes')
+          .setDesc('Save new workspaces as notes in the vault, so they sync with it and can be linked to. ' +
+              'The note links to all notes in the workspace. Existing workspaces are kept where they are.')
+          .addToggle((toggle) => {
+            toggle.setValue(this.plugin.settings.workspacesAsNotes)
+                .onChange((new_value) => {
+                  this.plugin.settings.workspacesAsNotes = new_value;
+                  this.plugin.saveData(this.plugin.settings);
+                });
+          });
+
+      new Setting(containerEl)
+          .setName('Workspace notes folder')
+          .setDesc('The folder new workspace notes are saved in.')
+          .addText((text) => {
+            text.setValue(this.plugin.settings.workspaceNotesFolder)
+                .onChange((new_value) => {
+                  this.plugin.settings.workspaceNotesFolder = new_value;
+                  this.plugin.saveData(this.plugin.settings);
+                });
+          });
+
       new Setting(containerEl)
         .setName('Terminal Command')
         .setDesc('The command to run when a new terminal is opened from a node. You can use {{source_note_path}}, {{source_note_name}}, and {{source_note_basename}} as placeholders.')
@@ -494,5 +628,244 @@ export class JugglGraphSettingsTab extends PluginSettingTab {
               this.plugin.saveData(this.plugin.settings);
             });
         });
+
+      new Setting(containerEl)
+          .setName('Terminal backend')
+          .setDesc('Where terminals are shown. Terminal views show the shell in a tab, where you can interact ' +
+              'with it. The Terminal plugin shows a shell of its own in a tab, next to the one that commands and ' +
+              'agents run in. Headless terminals have no view: their output can be followed by hovering the node or ' +
+              'writing a transcript.')
+          .addDropdown((dropdown) => {
+            dropdown.addOption('auto', 'Terminal view if available, otherwise headless')
+                .addOption('view', 'Terminal view')
+                .addOption('terminal-plugin', 'Terminal plugin')
+                .addOption('headless', 'Headless')
+                .setValue(this.plugin.settings.terminalBackend)
+                .onChange((value: TerminalBackendId) => {
+                  this.plugin.settings.terminalBackend = value;
+                  this.plugin.saveData(this.plugin.settings);
+                });
+          });
+
+      this.displayAgentProfiles(containerEl);
+      this.displaySavedQueries(containerEl);
+    }
+
+    displayAgentProfiles(containerEl: HTMLElement): void {
+      containerEl.createEl('h3', {text: 'Agent profiles'});
+      containerEl.createEl('p', {text: 'Coding agents that can be launched from the radial menu of a node. ' +
+            'The launch command supports the same placeholders as the terminal command.'});
+      const profiles = this.plugin.settings.agentProfiles;
+      const save = () => this.plugin.saveData(this.plugin.settings);
+      new Setting(containerEl)
+          .setName('Concurrent agents')
+          .setDesc('How many agents can run at the same time when running an agent on a selection. ' +
+              'The other nodes are queued until an agent finishes.')
+          .addText((text) => {
+            text.setValue(this.plugin.settings.maxConcurrentAgents + '')
+                .setPlaceholder('3')
+                .onChange((value) => {
+                  const limit = parseInt(value.trim());
+                  if (limit > 0) {
+                    this.plugin.settings.maxConcurrentAgents = limit;
+                    save();
+                  }
+                });
+          });
+      new Setting(containerEl)
+          .setName('Group terminals by source note')
+          .setDesc('Put all terminals spawned from a note in a session box that can be collapsed by clicking it. ' +
+              'Applies to terminals added to the graph after changing this setting.')
+          .addToggle((toggle) => {
+            toggle.setValue(this.plugin.settings.groupTerminalsBySource)
+                .onChange((value) => {
+                  this.plugin.settings.groupTerminalsBySource = value;
+                  save();
+                });
+          });
+      for (const profile of profiles) {
+        containerEl.createEl('h4', {text: profile.name || 'Unnamed agent'});
+        new Setting(containerEl)
+            .setName('Name')
+            .addText((text) => {
+              text.setValue(profile.name)
+                  .onChange((value) => {
+                    profile.name = value;
+                    save();
+                  });
+            })
+            .addExtraButton((button) => {
+              button.setIcon('trash')
+                  .setTooltip('Delete agent profile')
+                  .onClick(() => {
+                    profiles.remove(profile);
+                    save();
+                    this.display();
+                  });
+            });
+        new Setting(containerEl)
+            .setName('Launch command')
+            .addText((text) => {
+              text.setPlaceholder('e.g. claude "Work on {{source_note_path}}"')
+                  .setValue(profile.command)
+                  .onChange((value) => {
+                    profile.command = value;
+                    save();
+                  });
+            });
+        new Setting(containerEl)
+            .setName('Environment variables')
+            .setDesc('One KEY=VALUE pair per line. They are stored with the plugin settings and only given to the shell of the agent.')
+            .addTextArea((text) => {
+              text.setValue(Object.entries(profile.env).map(([k, v]) => `${k}=${v}`).join('\n'))
+                  .onChange((value) => {
+                    profile.env = {};
+                    for (const line of value.split('\n')) {
+                      const split = line.indexOf('=');
+                      if (split > 0) {
+                        profile.env[line.slice(0, split).trim()] = line.slice(split + 1);
+                      }
+                    }
+                    save();
+                  });
+            });
+        new Setting(containerEl)
+            .setName('Working directory')
+            .addDropdown((dropdown) => {
+              dropdown.addOption('note-folder', 'Folder of the note');
+              dropdown.addOption('vault-root', 'Vault root');
+              dropdown.addOption('custom', 'Custom directory');
+              dropdown.setValue(profile.workingDir)
+                  .onChange((value: WorkingDirStrategy) => {
+                    profile.workingDir = value;
+                    save();
+                    this.display();
+                  });
+            });
+        if (profile.workingDir === 'custom') {
+          new Setting(containerEl)
+              .setName('Custom directory')
+              .setDesc('Absolute path, or a path relative to the vault root.')
+              .addText((text) => {
+                text.setValue(profile.customDir)
+                    .onChange((value) => {
+                      profile.customDir = value;
+                      save();
+                    });
+              });
+        }
+        new Setting(containerEl)
+            .setName('Icon and colour')
+            .setDesc('Shown in the radial menu and on the terminal nodes of this agent.')
+            .addButton((button) => {
+              if (profile.icon.path) {
+                button.buttonEl.innerHTML = pathToSvg(profile.icon.path);
+              } else {
+                button.setButtonText(profile.icon.name);
+              }
+              button.onClick(() => {
+                new IconModal(this.app, (icon: Icon) => {
+                  profile.icon = icon;
+                  save();
+                  this.display();
+                }, profile.color).open();
+              });
+            })
+            .addColorPicker((color) => {
+              color.setValue(profile.color)
+                  .onChange((value) => {
+                    profile.color = value;
+                    profile.icon.color = value;
+                    save();
+                  });
+            });
+      }
+      new Setting(containerEl)
+          .addButton((button) => {
+            button.setButtonText('Add agent profile')
+                .setCta()
+                .onClick(() => {
+                  profiles.push({...emptyAgentProfile, env: {}, icon: {...emptyAgentProfile.icon}});
+                  save();
+                  this.display();
+                });
+          });
+    }
+
+    displaySavedQueries(containerEl: HTMLElement): void {
+      containerEl.createEl('h3', {text: 'Saved queries'});
+      containerEl.createEl('p', {text: 'Named views that can be applied from the toolbar, the command palette or ' +
+            'a juggl code block with query: <name>. Use "Save current view as query" in a graph to save its style ' +
+            'groups as well.'});
+      const queries = this.plugin.settings.savedQueries;
+      const save = () => this.plugin.saveData(this.plugin.settings);
+      for (const query of queries) {
+        containerEl.createEl('h4', {text: query.name || 'Unnamed query'});
+        new Setting(containerEl)
+            .setName('Name')
+            .addText((text) => {
+              text.setValue(query.name)
+                  .onChange((value) => {
+                    query.name = value;
+                    save();
+                  });
+            })
+            .addExtraButton((button) => {
+              button.setIcon('trash')
+                  .setTooltip('Delete saved query')
+                  .onClick(() => {
+                    queries.remove(query);
+                    save();
+                    this.display();
+                  });
+            });
+        new Setting(containerEl)
+            .setName('Filter')
+            .addText((text) => {
+              text.setPlaceholder('e.g. tag:#output -class:dangling')
+                  .setValue(query.filter)
+                  .onChange((value) => {
+                    query.filter = value;
+                    save();
+                  });
+            });
+        new Setting(containerEl)
+            .setName('Layout')
+            .addDropdown((dropdown) => {
+              dropdown.addOption('', 'Keep the layout of the graph');
+              for (const layout of LAYOUTS) {
+                dropdown.addOption(layout, layout);
+              }
+              dropdown.setValue(query.layout)
+                  .onChange((value: JugglLayouts | '') => {
+                    query.layout = value;
+                    save();
+                  });
+            });
+        new Setting(containerEl)
+            .setName('Style groups')
+            .setDesc(`${query.styleGroups.length} style groups and ${query.edgeStyleGroups.length} edge style ` +
+                'groups replace those of the graph.')
+            .addButton((button) => {
+              button.setButtonText('Clear')
+                  .setDisabled(query.styleGroups.length === 0 && query.edgeStyleGroups.length === 0)
+                  .onClick(() => {
+                    query.styleGroups = [];
+                    query.edgeStyleGroups = [];
+                    save();
+                    this.display();
+                  });
+            });
+      }
+      new Setting(containerEl)
+          .addButton((button) => {
+            button.setButtonText('Add saved query')
+                .setCta()
+                .onClick(() => {
+                  queries.push({...emptySavedQuery, styleGroups: [], edgeStyleGroups: []});
+                  save();
+                  this.display();
+                });
+          });
     }
 }
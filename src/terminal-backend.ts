@@ -0,0 +1,143 @@
+import type { App, WorkspaceLeaf } from 'obsidian';
+import { PtyBridge } from './pty-bridge';
+import { JUGGL_TERMINAL_VIEW_TYPE } from './terminal-view';
+import type { JugglTerminalView } from './terminal-view';
+
+export type TerminalBackendId = 'auto' | 'view' | 'terminal-plugin' | 'headless';
+
+export const TERMINAL_VIEW_TYPE = 'terminal:terminal';
+
+/**
+ * Decides where the user sees a terminal. The shell that commands and agents run in is always owned by the
+ * PtyBridge, which streams its output into the TerminalDataStore. Backends only add a view on top of it.
+ */
+export interface TerminalBackend {
+    id: TerminalBackendId;
+    // Whether the terminal is shown in a workspace leaf. If not, it can only be followed through its output.
+    hasView: boolean;
+    isAvailable(): boolean;
+    // Opens the view of a terminal. Returns null if that failed.
+    open(terminalId: string): Promise<WorkspaceLeaf | null>;
+    // The leaf that shows the terminal, if it is open
+    findLeaf(terminalId: string): WorkspaceLeaf | null;
+}
+
+// Shows terminals in a terminal view that displays and controls the shell of the PtyBridge
+export class ViewBackend implements TerminalBackend {
+    id: TerminalBackendId = 'view';
+    hasView = true;
+    app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    isAvailable(): boolean {
+        return PtyBridge.isSupported();
+    }
+
+    findLeaf(terminalId: string): WorkspaceLeaf | null {
+        return this.app.workspace.getLeavesOfType(JUGGL_TERMINAL_VIEW_TYPE)
+            .find((leaf) => (leaf.view as JugglTerminalView).terminalId === terminalId) || null;
+    }
+
+    async open(terminalId: string): Promise<WorkspaceLeaf | null> {
+        const leaf = this.findLeaf(terminalId) || this.app.workspace.getLeaf('tab');
+        try {
+            await leaf.setViewState({ type: JUGGL_TERMINAL_VIEW_TYPE, active: true, state: { terminalId } });
+        } catch (error) {
+            console.error('[Juggl Debug] Error opening terminal view:', error);
+            return null;
+        }
+        return leaf;
+    }
+}
+
+// Shows terminals in leaves of the Terminal plugin (https://github.com/polyipseity/obsidian-terminal). The plugin
+// runs a shell of its own next to the one of the PtyBridge, so commands and agents are not run in the shell it shows.
+export class TerminalPluginBackend implements TerminalBackend {
+    id: TerminalBackendId = 'terminal-plugin';
+    hasView = true;
+    app: App;
+    // The leaves of the Terminal plugin don't know which terminal they show, so the backend keeps track of them
+    leaves: Map<string, WorkspaceLeaf> = new Map();
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    isAvailable(): boolean {
+        // @ts-ignore
+        return PtyBridge.isSupported() && !!this.app.plugins.plugins['terminal'];
+    }
+
+    findLeaf(terminalId: string): WorkspaceLeaf | null {
+        const leaf = this.leaves.get(terminalId);
+        if (leaf && this.app.workspace.getLeavesOfType(TERMINAL_VIEW_TYPE).includes(leaf)) {
+            return leaf;
+        }
+        this.leaves.delete(terminalId);
+        return null;
+    }
+
+    async open(terminalId: string): Promise<WorkspaceLeaf | null> {
+        const openLeaf = this.findLeaf(terminalId);
+        if (openLeaf) {
+            this.app.workspace.setActiveLeaf(openLeaf, { focus: true });
+            return openLeaf;
+        }
+        if (!this.isAvailable()) {
+            console.error('[Juggl Debug] Terminal plugin not found.');
+            return null;
+        }
+        const leavesBefore = new Set(this.app.workspace.getLeavesOfType(TERMINAL_VIEW_TYPE));
+        console.log(`[Juggl Debug] Found ${leavesBefore.size} terminal leaves before command.`);
+        try {
+            // @ts-ignore
+            await this.app.commands.executeCommandById('terminal:open-terminal.integrated.root');
+        } catch (error) {
+            console.error('[Juggl Debug] Error executing command to open terminal:', error);
+            return null;
+        }
+        // The command does not return the leaf it opened, so look for a leaf that wasn't there before
+        for (let i = 0; i < 10; i++) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+            const leavesAfter = this.app.workspace.getLeavesOfType(TERMINAL_VIEW_TYPE);
+            const foundLeaf = leavesAfter.find(leaf => !leavesBefore.has(leaf));
+            if (foundLeaf) {
+                console.log(`[Juggl Debug] New terminal leaf identified for ${terminalId}`);
+                this.leaves.set(terminalId, foundLeaf);
+                return foundLeaf;
+            }
+        }
+        console.error(`[Juggl Debug] Could not find new terminal leaf.`);
+        return null;
+    }
+}
+
+// Runs terminals without a view, using only the shell of the PtyBridge
+export class HeadlessBackend implements TerminalBackend {
+    id: TerminalBackendId = 'headless';
+    hasView = false;
+
+    isAvailable(): boolean {
+        return PtyBridge.isSupported();
+    }
+
+    findLeaf(terminalId: string): WorkspaceLeaf | null {
+        return null;
+    }
+
+    async open(terminalId: string): Promise<WorkspaceLeaf | null> {
+        return null;
+    }
+}
+
+// Picks the backend for the setting. 'auto' prefers the terminal view, and falls back to running headless. The
+// Terminal plugin is only used when it is chosen, as the shell it shows is not the one commands run in.
+export function selectBackend(setting: TerminalBackendId, backends: TerminalBackend[]): TerminalBackend | null {
+    if (setting && setting !== 'auto') {
+        return backends.find((b) => b.id === setting && b.isAvailable()) || null;
+    }
+    return backends.find((b) => b.isAvailable()) || null;
+}
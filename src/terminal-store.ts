@@ -1,13 +1,43 @@
-import { Component, App, WorkspaceLeaf, getIcon } from 'obsidian';
+import { Component, App, WorkspaceLeaf, TAbstractFile, TFile, Vault, debounce, getIcon } from 'obsidian';
 import type { 
     IDataStore, 
-    IJuggl, 
-    IJugglPlugin 
+    IJuggl 
 } from 'juggl-api';
 import { VizId } from 'juggl-api';
 import { DataStoreEvents } from './events';
 import type { NodeDefinition, EdgeDefinition, NodeCollection } from 'cytoscape';
+import type { FileSystemAdapter } from 'obsidian';
 import { TerminalHoverEditorPositioning } from './terminal-hover-editor-positioning';
+import { DATA_FOLDER, TERMINAL_CREATED_BY_KEY, TERMINAL_OUTPUT_MAX_LINES } from './constants';
+import { PtyBridge } from './pty-bridge';
+import { HeadlessBackend, selectBackend, TerminalPluginBackend, ViewBackend } from './terminal-backend';
+import type { TerminalBackend } from './terminal-backend';
+import { JUGGL_TERMINAL_VIEW_TYPE } from './terminal-view';
+import type { JugglTerminalView } from './terminal-view';
+import type JugglPlugin from './main';
+import type { AgentProfile } from './settings';
+
+export const TERMINALS_PATH = function(vault: Vault) {
+    return DATA_FOLDER(vault) + 'terminals.json';
+};
+
+// Prefix of the ids of the compound nodes that group the terminals of a source note
+export const SESSION_PREFIX = 'session-';
+
+// Removes ANSI escape sequences and control characters from terminal output
+export function stripAnsi(text: string): string {
+    return text
+        .replace(/\x1b\[[0-9;?]*[ -\/]*[@-~]/g, '')
+        .replace(/\x1b\][^\x07\x1b]*(\x07|\x1b\\)/g, '')
+        .replace(/\x1b[()][A-Za-z0-9]|\x1b[=>]/g, '')
+        .replace(/\r\n/g, '\n')
+        .replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '');
+}
+
+// Quotes a value for safe interpolation into a POSIX shell script
+export function shellQuote(value: string): string {
+    return `'${String(value).replace(/'/g, `'\\''`)}'`;
+}
 
 // Terminal state interface - matches the structure from terminal plugin
 interface TerminalState {
@@ -15,29 +45,380 @@ interface TerminalState {
     name: string;
     profile: any; // Profile configuration
     cwd: string | null;
-    status: 'active' | 'inactive' | 'error';
+    status: 'active' | 'inactive' | 'error' | 'queued';
     workingDir?: string;
     command?: string;
-    output?: string;
+    output?: string; // Rolling buffer of the last TERMINAL_OUTPUT_MAX_LINES lines of output
     timestamp: Date;
     leaf?: WorkspaceLeaf; // Associated workspace leaf
     sourceFile?: string; // The file this terminal is connected to
+    agent?: string; // Name of the agent profile the terminal was launched with
+    updatedAt?: Date;
+    transcriptFile?: string; // Name of the note the output was last written to
+    exitCode?: number | null; // Exit code of the shell process, null if it was killed by a signal
+    endedAt?: Date;
+    producedFiles?: string[]; // Names of the notes created by the agent in this terminal
+}
+
+// Serialized form of a terminal, written to TERMINALS_PATH
+interface PersistedTerminal {
+    id: string;
+    name: string;
+    cwd: string | null;
+    sourceFile: string;
+    agent?: string;
+    timestamp: string;
+    updatedAt: string;
+    transcriptFile?: string;
+    exitCode?: number | null;
+    endedAt?: string;
+    producedFiles?: string[];
 }
 
 export class TerminalDataStore extends Component implements IDataStore {
     app: App;
-    plugin: IJugglPlugin;
+    plugin: JugglPlugin;
     events: DataStoreEvents;
     terminals: Map<string, TerminalState> = new Map();
     // Hover editor positioning manager
     hoverEditorPositioning: TerminalHoverEditorPositioning;
+    // Owns the shell processes that commands are sent to
+    ptyBridge: PtyBridge;
+    viewBackend: ViewBackend;
+    // In order of preference
+    backends: TerminalBackend[];
+    // Paths of notes that are being written by the store itself, and thus not by an agent
+    internalWrites: Set<string> = new Set();
+    // Terminals waiting for one of the concurrent agent slots
+    agentQueue: string[] = [];
+    // Source notes whose session node is collapsed
+    collapsedSessions: Set<string> = new Set();
+    // Terminals are spawned one at a time, so that their views open in the order they were queued
+    private spawnChain: Promise<any> = Promise.resolve();
+    requestSave: () => void;
 
-    constructor(plugin: IJugglPlugin) {
+    constructor(plugin: JugglPlugin) {
         super();
         this.plugin = plugin;
         this.app = plugin.app;
         this.events = new DataStoreEvents();
         this.hoverEditorPositioning = new TerminalHoverEditorPositioning();
+        this.ptyBridge = new PtyBridge();
+        this.viewBackend = new ViewBackend(this.app);
+        this.backends = [this.viewBackend, new TerminalPluginBackend(this.app), new HeadlessBackend()];
+        this.requestSave = debounce(() => this.saveTerminals(), 1000, true);
+    }
+
+    async onload() {
+        super.onload();
+        this.registerEvent(this.ptyBridge.on('data', (terminalId, data) => this.appendOutput(terminalId, data)));
+        this.registerEvent(this.ptyBridge.on('exit', (terminalId, code) => this.onProcessExit(terminalId, code)));
+        this.registerEvent(this.app.workspace.on('layout-change', () => this.detectClosedLeaves()));
+        // Keep the nodes in all graphs in sync with the terminal state
+        this.registerEvent(this.events.on('modifyNode', (terminalId) => this.refreshGraphs(terminalId)));
+        this.registerEvent(this.app.vault.on('create', (file) => this.onFileCreated(file)));
+        this.registerEvent(this.app.metadataCache.on('changed', (file) => this.onMetadataChanged(file)));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.onFileRenamed(file, oldPath)));
+        await this.loadTerminals();
+    }
+
+    private refreshGraphs(terminalId: string): void {
+        const id = new VizId(terminalId, this.storeId());
+        this.plugin.activeGraphs().forEach(async (graph) => {
+            if (graph && graph.vizReady && graph.viz) {
+                await this.refreshNode(id, graph);
+            }
+        });
+    }
+
+    private onProcessExit(terminalId: string, code: number | null): void {
+        const terminal = this.terminals.get(terminalId);
+        if (!terminal) {
+            return;
+        }
+        console.log(`[Juggl Debug] Terminal ${terminalId} exited with code ${code}`);
+        terminal.exitCode = code;
+        terminal.endedAt = new Date();
+        this.updateTerminalStatus(terminalId, code === null || code === 0 ? 'inactive' : 'error');
+    }
+
+    private isRunning(terminal: TerminalState): boolean {
+        return terminal.status === 'active' || this.ptyBridge.has(terminal.id);
+    }
+
+    // Notes created inside the working directory of a running terminal were most likely written by its agent.
+    // If several terminals match, the one with the most specific working directory wins.
+    private onFileCreated(file: TAbstractFile): void {
+        // The vault also emits create events for all files while it is loading
+        if (!this.app.workspace.layoutReady || !(file instanceof TFile) || file.extension !== 'md'
+            || this.internalWrites.has(file.path)) {
+            return;
+        }
+        let match: TerminalState = null;
+        let matchDepth = -1;
+        for (const terminal of this.terminals.values()) {
+            if (!this.isRunning(terminal) || terminal.sourceFile === file.name) {
+                continue;
+            }
+            const dir = !terminal.cwd || terminal.cwd === '/' ? '' : terminal.cwd.replace(/^\/+|\/+$/g, '') + '/';
+            if (!file.path.startsWith(dir)) {
+                continue;
+            }
+            const depth = dir.split('/').length;
+            if (depth > matchDepth || (depth === matchDepth && (terminal.updatedAt || terminal.timestamp) > (match.updatedAt || match.timestamp))) {
+                match = terminal;
+                matchDepth = depth;
+            }
+        }
+        if (match) {
+            this.linkProducedFile(match, file);
+        }
+    }
+
+    // Agents are asked to write the id of their terminal in the frontmatter of the notes they create
+    private onMetadataChanged(file: TFile): void {
+        const createdBy = this.app.metadataCache.getFileCache(file)?.frontmatter?.[TERMINAL_CREATED_BY_KEY];
+        if (!createdBy) {
+            return;
+        }
+        const terminal = this.terminals.get(String(createdBy));
+        if (!terminal || terminal.producedFiles?.includes(file.name)) {
+            return;
+        }
+        // The frontmatter is more reliable than matching on the working directory
+        for (const other of this.terminals.values()) {
+            if (other.producedFiles?.includes(file.name)) {
+                this.unlinkProducedFile(other, file.name);
+            }
+        }
+        this.linkProducedFile(terminal, file);
+    }
+
+    private onFileRenamed(file: TAbstractFile, oldPath: string): void {
+        if (!(file instanceof TFile)) {
+            return;
+        }
+        const oldName = oldPath.split('/').pop();
+        for (const terminal of this.terminals.values()) {
+            const index = terminal.producedFiles?.indexOf(oldName) ?? -1;
+            if (index >= 0) {
+                terminal.producedFiles[index] = file.name;
+                this.requestSave();
+            }
+        }
+    }
+
+    // Records that a note was created by the agent in a terminal, and adds it next to the terminal node
+    // with a produced-by edge.
+    private async linkProducedFile(terminal: TerminalState, file: TFile): Promise<void> {
+        console.log(`[Juggl Debug] ${file.path} was produced by terminal ${terminal.id}`);
+        terminal.producedFiles = (terminal.producedFiles || []).concat(file.name);
+        this.requestSave();
+
+        const terminalNodeId = new VizId(terminal.id, this.storeId()).toId();
+        const fileId = new VizId(file.name, 'core');
+        for (const graph of this.plugin.activeGraphs()) {
+            if (!graph || !graph.vizReady || !graph.viz || graph.viz.$id(terminalNodeId).length === 0) {
+                continue;
+            }
+            if (graph.viz.$id(fileId.toId()).length === 0) {
+                const nodeDef = await graph.datastores.coreStore.get(fileId, graph);
+                if (!nodeDef) {
+                    continue;
+                }
+                nodeDef.data.linkedNodeIds = [terminalNodeId];
+                graph.mergeToGraph([nodeDef], true, false);
+            }
+            graph.mergeToGraph([this.createProducedByEdge(terminal, file.name)], true, false);
+            graph.onGraphChanged(true, true);
+        }
+    }
+
+    private unlinkProducedFile(terminal: TerminalState, fileName: string): void {
+        terminal.producedFiles = terminal.producedFiles.filter((name) => name !== fileName);
+        this.requestSave();
+        const edgeId = this.createProducedByEdge(terminal, fileName).data.id;
+        for (const graph of this.plugin.activeGraphs()) {
+            graph?.viz?.$id(edgeId).remove();
+        }
+    }
+
+    // Closing the view of a terminal stops its shell, which frees its agent slot. Terminals without a running
+    // shell just become inactive.
+    private detectClosedLeaves(): void {
+        for (const terminal of this.terminals.values()) {
+            if (!terminal.leaf) {
+                continue;
+            }
+            // The view may have moved to another leaf, like the popover of a hover editor
+            const leaf = this.backends.map((backend) => backend.findLeaf(terminal.id)).find((l) => l) || null;
+            if (leaf) {
+                terminal.leaf = leaf;
+                continue;
+            }
+            console.log(`[Juggl Debug] Leaf of terminal ${terminal.id} was closed`);
+            terminal.leaf = undefined;
+            if (this.ptyBridge.has(terminal.id)) {
+                this.ptyBridge.kill(terminal.id);
+                this.onProcessExit(terminal.id, null);
+            } else if (terminal.status === 'active') {
+                terminal.endedAt = new Date();
+                this.updateTerminalStatus(terminal.id, 'inactive');
+            }
+        }
+    }
+
+    appendOutput(terminalId: string, data: string): void {
+        const terminal = this.terminals.get(terminalId);
+        if (!terminal) {
+            return;
+        }
+        const lines = ((terminal.output || '') + stripAnsi(data)).split('\n');
+        terminal.output = lines.slice(-TERMINAL_OUTPUT_MAX_LINES).join('\n');
+    }
+
+    // The last lines of output of a terminal
+    getOutputTail(terminalId: string, lineCount: number): string {
+        const output = this.terminals.get(terminalId)?.output;
+        if (!output) {
+            return '';
+        }
+        return output.trimEnd().split('\n').slice(-lineCount).join('\n');
+    }
+
+    // Writes the output buffer of a terminal to a markdown note next to its source note, and links it
+    // from the terminal node.
+    async openTranscript(terminalId: string): Promise<TFile> {
+        const terminal = this.terminals.get(terminalId);
+        if (!terminal) {
+            console.error(`[Juggl Debug] Terminal ${terminalId} not found in store.`);
+            return null;
+        }
+        const sourceFile = terminal.sourceFile ? this.app.metadataCache.getFirstLinkpathDest(terminal.sourceFile, '') : null;
+        const folder = sourceFile && sourceFile.parent.path !== '/' ? sourceFile.parent.path + '/' : '';
+        const name = `Transcript ${terminal.id.replace(/[\\/:*?"<>|#^\[\]]/g, '-')}.md`;
+        const content = `# ${terminal.name}
+
+${sourceFile ? `Source: [[${sourceFile.basename}]]` : ''}
+Transcript written at ${new Date().toISOString()}
+
+\`\`\`\`text
+${terminal.output?.trimEnd() || ''}
+\`\`\`\`
+`;
+        let transcript: TFile;
+        try {
+            const existing = this.app.vault.getAbstractFileByPath(folder + name);
+            if (existing instanceof TFile) {
+                await this.app.vault.modify(existing, content);
+                transcript = existing;
+            } else {
+                this.internalWrites.add(folder + name);
+                transcript = await this.app.vault.create(folder + name, content);
+            }
+        } catch (e) {
+            console.error('[Juggl Debug] Failed to write transcript:', e);
+            return null;
+        } finally {
+            this.internalWrites.delete(folder + name);
+        }
+        terminal.transcriptFile = transcript.name;
+        this.requestSave();
+
+        const terminalNodeId = new VizId(terminal.id, this.storeId()).toId();
+        for (const graph of this.plugin.activeGraphs()) {
+            if (!graph || !graph.viz || graph.viz.$id(terminalNodeId).length === 0) {
+                continue;
+            }
+            const transcriptId = new VizId(transcript.name, 'core');
+            const nodeDef = await graph.datastores.coreStore.get(transcriptId, graph);
+            if (!nodeDef) {
+                continue;
+            }
+            nodeDef.data.linkedNodeIds = [terminalNodeId];
+            graph.mergeToGraph([nodeDef], true, false);
+            graph.mergeToGraph([this.createTranscriptEdge(terminal)], true, false);
+            graph.onGraphChanged(true, true);
+        }
+        await this.app.workspace.getLeaf(false).openFile(transcript);
+        return transcript;
+    }
+
+    // Restores the terminal registry from disk. Terminals are rehydrated as inactive, since their
+    // processes did not survive the restart. They can be respawned by clicking on their node.
+    async loadTerminals(): Promise<void> {
+        const path = TERMINALS_PATH(this.app.vault);
+        try {
+            if (!(await this.app.vault.adapter.exists(path))) {
+                return;
+            }
+            const persisted: PersistedTerminal[] = JSON.parse(await this.app.vault.adapter.read(path));
+            for (const p of persisted) {
+                this.terminals.set(p.id, {
+                    id: p.id,
+                    name: p.name,
+                    profile: { type: 'integrated' },
+                    cwd: p.cwd,
+                    status: 'inactive',
+                    workingDir: p.cwd,
+                    command: p.cwd ? `cd "${p.cwd}"` : undefined,
+                    timestamp: new Date(p.timestamp),
+                    updatedAt: new Date(p.updatedAt),
+                    sourceFile: p.sourceFile,
+                    agent: p.agent,
+                    transcriptFile: p.transcriptFile,
+                    exitCode: p.exitCode,
+                    endedAt: p.endedAt ? new Date(p.endedAt) : undefined,
+                    producedFiles: p.producedFiles,
+                });
+            }
+            console.log(`[Juggl Debug] Restored ${persisted.length} terminals from ${path}`);
+        } catch (e) {
+            console.log(e);
+            return;
+        }
+
+        const rehydrated = [...this.terminals.values()];
+        this.plugin.activeGraphs().forEach((graph) => {
+            if (!graph || !graph.viz) {
+                return;
+            }
+            for (const terminal of rehydrated) {
+                if (graph.viz.$id(new VizId(terminal.sourceFile, 'core').toId()).length > 0) {
+                    this.addTerminalToGraph(graph, terminal);
+                }
+            }
+            graph.onGraphChanged(true, true);
+        });
+    }
+
+    async saveTerminals(): Promise<void> {
+        // Only terminals spawned from a note are persisted: these are the agent nodes we can reconnect.
+        const persisted: PersistedTerminal[] = [];
+        for (const terminal of this.terminals.values()) {
+            if (!terminal.sourceFile) {
+                continue;
+            }
+            persisted.push({
+                id: terminal.id,
+                name: terminal.name,
+                cwd: terminal.cwd,
+                sourceFile: terminal.sourceFile,
+                agent: terminal.agent,
+                transcriptFile: terminal.transcriptFile,
+                exitCode: terminal.exitCode,
+                endedAt: terminal.endedAt?.toISOString(),
+                producedFiles: terminal.producedFiles,
+                timestamp: terminal.timestamp.toISOString(),
+                updatedAt: (terminal.updatedAt || terminal.timestamp).toISOString(),
+            });
+        }
+        try {
+            await this.app.vault.adapter.mkdir(DATA_FOLDER(this.app.vault));
+            await this.app.vault.adapter.write(TERMINALS_PATH(this.app.vault), JSON.stringify(persisted));
+        } catch (e) {
+            console.log(e);
+        }
     }
 
     getEvents(view: IJuggl): DataStoreEvents {
@@ -51,14 +432,34 @@ export class TerminalDataStore extends Component implements IDataStore {
     async getNeighbourhood(nodeIds: VizId[], viz: IJuggl): Promise<NodeDefinition[]> {
         const nodes: NodeDefinition[] = [];
         
+        const sessions = new Set<string>();
         for (const nodeId of nodeIds) {
             if (nodeId.storeId === this.storeId()) {
+                if (this.isSessionId(nodeId.id)) {
+                    sessions.add(nodeId.id.slice(SESSION_PREFIX.length));
+                    continue;
+                }
                 const terminal = this.terminals.get(nodeId.id);
                 if (terminal) {
                     nodes.push(this.createNodeDefinition(terminal));
+                    if (this.groupBySource() && terminal.sourceFile) {
+                        sessions.add(terminal.sourceFile);
+                    }
+                }
+            } else if (nodeId.storeId === 'core') {
+                // Terminals spawned from this note belong to its neighbourhood
+                for (const terminal of this.terminalsForSource(nodeId.id)) {
+                    nodes.push(this.createNodeDefinition(terminal));
+                    if (this.groupBySource()) {
+                        sessions.add(terminal.sourceFile);
+                    }
                 }
             }
         }
+        // Parents have to be added before their children
+        for (const sourceFile of sessions) {
+            nodes.unshift(this.createSessionNodeDefinition(sourceFile));
+        }
 
         // Add some default terminal nodes for testing
         if (nodes.length === 0) {
@@ -95,25 +496,52 @@ export class TerminalDataStore extends Component implements IDataStore {
     }
 
     async connectNodes(allNodes: NodeCollection, newNodes: NodeCollection, viz: IJuggl): Promise<EdgeDefinition[]> {
-        const edges: EdgeDefinition[] = [];
-        
-        // Create connections between terminals and files in their working directories
+        const edges: Record<string, EdgeDefinition> = {};
+
         // @ts-ignore
         for (const node of newNodes) {
             const nodeId = VizId.fromNode(node);
-            if (nodeId.storeId === this.storeId()) {
+            if (nodeId.storeId === this.storeId() && this.isSessionId(nodeId.id)) {
+                const sourceFile = nodeId.id.slice(SESSION_PREFIX.length);
+                const sourceId = new VizId(sourceFile, 'core').toId();
+                if (this.collapsedSessions.has(sourceFile) && allNodes.$id(sourceId).length > 0) {
+                    const edge = this.createSessionEdge(sourceFile);
+                    edges[edge.data.id] = edge;
+                }
+            } else if (nodeId.storeId === this.storeId()) {
                 const terminal = this.terminals.get(nodeId.id);
-                if (terminal && terminal.workingDir) {
+                if (!terminal) {
+                    continue;
+                }
+                if (terminal.transcriptFile && allNodes.$id(new VizId(terminal.transcriptFile, 'core').toId()).length > 0) {
+                    const edge = this.createTranscriptEdge(terminal);
+                    edges[edge.data.id] = edge;
+                }
+                for (const fileName of terminal.producedFiles || []) {
+                    if (allNodes.$id(new VizId(fileName, 'core').toId()).length > 0) {
+                        const edge = this.createProducedByEdge(terminal, fileName);
+                        edges[edge.data.id] = edge;
+                    }
+                }
+                if (terminal.sourceFile) {
+                    // Reconnect the terminal to the note it was spawned from
+                    const sourceId = new VizId(terminal.sourceFile, 'core').toId();
+                    if (allNodes.$id(sourceId).length > 0) {
+                        const edge = this.createConnectionEdge(sourceId, terminal);
+                        edges[edge.data.id] = edge;
+                    }
+                } else if (terminal.workingDir) {
                     // Find file nodes that might be in the terminal's working directory
                     // @ts-ignore
                     for (const otherNode of allNodes) {
                         const otherId = VizId.fromNode(otherNode);
                         if (otherId.storeId === 'core') {
                             // Create edge if file is related to terminal's working directory
-                            edges.push({
+                            const id = `${nodeId.toId()}->${otherId.toId()}`;
+                            edges[id] = {
                                 group: 'edges',
                                 data: {
-                                    id: `${nodeId.toId()}->${otherId.toId()}`,
+                                    id: id,
                                     source: nodeId.toId(),
                                     target: otherId.toId(),
                                     context: `Working in ${terminal.workingDir}`,
@@ -121,18 +549,256 @@ export class TerminalDataStore extends Component implements IDataStore {
                                     type: 'workingDir'
                                 },
                                 classes: ['terminal-file-relation', 'type-workingDir']
-                            } as EdgeDefinition);
+                            } as EdgeDefinition;
                         }
                     }
                 }
+            } else if (nodeId.storeId === 'core') {
+                if (this.collapsedSessions.has(nodeId.id) && allNodes.$id(this.sessionNodeId(nodeId.id)).length > 0) {
+                    const edge = this.createSessionEdge(nodeId.id);
+                    edges[edge.data.id] = edge;
+                }
+                for (const terminal of this.terminals.values()) {
+                    const terminalId = new VizId(terminal.id, this.storeId()).toId();
+                    if (allNodes.$id(terminalId).length === 0) {
+                        continue;
+                    }
+                    // A source note or transcript was added after its terminal
+                    if (terminal.sourceFile === nodeId.id) {
+                        const edge = this.createConnectionEdge(nodeId.toId(), terminal);
+                        edges[edge.data.id] = edge;
+                    }
+                    if (terminal.transcriptFile === nodeId.id) {
+                        const edge = this.createTranscriptEdge(terminal);
+                        edges[edge.data.id] = edge;
+                    }
+                    if (terminal.producedFiles?.includes(nodeId.id)) {
+                        const edge = this.createProducedByEdge(terminal, nodeId.id);
+                        edges[edge.data.id] = edge;
+                    }
+                }
+            }
+        }
+
+        return Object.values(edges);
+    }
+
+    terminalsForSource(sourceFile: string): TerminalState[] {
+        return [...this.terminals.values()].filter((t) => t.sourceFile === sourceFile);
+    }
+
+    private createConnectionEdge(sourceId: string, terminal: TerminalState): EdgeDefinition {
+        const terminalId = new VizId(terminal.id, this.storeId()).toId();
+        return {
+            group: 'edges',
+            data: {
+                id: `${sourceId}->${terminalId}`,
+                source: sourceId,
+                target: terminalId,
+                context: `Terminal for ${terminal.sourceFile}`,
+                edgeCount: 1,
+                type: 'terminal'
+            },
+            classes: ['terminal-connection', 'type-terminal']
+        };
+    }
+
+    private createTranscriptEdge(terminal: TerminalState): EdgeDefinition {
+        const terminalId = new VizId(terminal.id, this.storeId()).toId();
+        const transcriptId = new VizId(terminal.transcriptFile, 'core').toId();
+        return {
+            group: 'edges',
+            data: {
+                id: `${terminalId}->${transcriptId}`,
+                source: terminalId,
+                target: transcriptId,
+                context: `Transcript of ${terminal.name}`,
+                edgeCount: 1,
+                type: 'transcript'
+            },
+            classes: ['terminal-connection', 'type-transcript']
+        };
+    }
+
+    private groupBySource(): boolean {
+        return !!this.plugin.settings?.groupTerminalsBySource;
+    }
+
+    isSessionId(id: string): boolean {
+        return id.startsWith(SESSION_PREFIX);
+    }
+
+    private sessionNodeId(sourceFile: string): string {
+        return new VizId(SESSION_PREFIX + sourceFile, this.storeId()).toId();
+    }
+
+    // Aggregate status of all terminals spawned from a source note
+    sessionStatus(sourceFile: string): { status: 'error' | 'running' | 'done', running: number, total: number } {
+        const terminals = this.terminalsForSource(sourceFile);
+        const running = terminals.filter((t) => t.status === 'active').length;
+        let status: 'error' | 'running' | 'done' = 'done';
+        if (terminals.some((t) => t.status === 'error')) {
+            status = 'error';
+        } else if (terminals.some((t) => t.status === 'active' || t.status === 'queued')) {
+            status = 'running';
+        }
+        return { status, running, total: terminals.length };
+    }
+
+    private sessionLabel(sourceFile: string): string {
+        const { status, running, total } = this.sessionStatus(sourceFile);
+        const name = sourceFile.replace(/\.md$/, '');
+        switch (status) {
+            case 'error': return `${name}: error (${total} terminals)`;
+            case 'running': return `${name}: ${running} of ${total} running`;
+            default: return `${name}: all done (${total} terminals)`;
+        }
+    }
+
+    // The compound node that contains all terminals spawned from a source note
+    private createSessionNodeDefinition(sourceFile: string): NodeDefinition {
+        const { status, running, total } = this.sessionStatus(sourceFile);
+        const collapsed = this.collapsedSessions.has(sourceFile);
+        return {
+            group: 'nodes',
+            data: {
+                id: this.sessionNodeId(sourceFile),
+                name: this.sessionLabel(sourceFile),
+                sourceFile: sourceFile,
+                status: status,
+                running: running,
+                total: total,
+                collapsed: collapsed
+            },
+            classes: [
+                'terminal-session',
+                `terminal-session-${status}`,
+                collapsed ? 'terminal-session-collapsed' : 'terminal-session-expanded'
+            ]
+        };
+    }
+
+    // While a session is collapsed, its source note is connected to the session node instead of its terminals
+    private createSessionEdge(sourceFile: string): EdgeDefinition {
+        const sourceId = new VizId(sourceFile, 'core').toId();
+        const sessionId = this.sessionNodeId(sourceFile);
+        return {
+            group: 'edges',
+            data: {
+                id: `${sourceId}->${sessionId}`,
+                source: sourceId,
+                target: sessionId,
+                context: `Terminals of ${sourceFile}`,
+                edgeCount: 1,
+                type: 'session'
+            },
+            classes: ['terminal-connection', 'type-session']
+        };
+    }
+
+    toggleSession(sessionId: string): void {
+        const sourceFile = sessionId.slice(SESSION_PREFIX.length);
+        this.setSessionCollapsed(sourceFile, !this.collapsedSessions.has(sourceFile));
+    }
+
+    // Hides or shows the terminals in the session of a source note, in all active graphs
+    setSessionCollapsed(sourceFile: string, collapsed: boolean): void {
+        if (collapsed) {
+            this.collapsedSessions.add(sourceFile);
+        } else {
+            this.collapsedSessions.delete(sourceFile);
+        }
+        const sessionId = this.sessionNodeId(sourceFile);
+        const edge = this.createSessionEdge(sourceFile);
+        for (const graph of this.plugin.activeGraphs()) {
+            if (!graph || !graph.vizReady || !graph.viz) {
+                continue;
+            }
+            const session = graph.viz.$id(sessionId);
+            if (session.length === 0) {
+                continue;
+            }
+            if (collapsed) {
+                session.children().addClass('terminal-session-hidden');
+                if (graph.viz.$id(edge.data.source).length > 0) {
+                    graph.mergeToGraph([edge], true, false);
+                }
+            } else {
+                session.children().removeClass('terminal-session-hidden');
+                graph.viz.$id(edge.data.id).remove();
             }
+            this.refreshSessionNode(sourceFile, graph);
+            graph.onGraphChanged(true, true);
         }
+    }
 
-        return edges;
+    private refreshSessionNode(sourceFile: string, view: IJuggl): void {
+        const node = view.viz.$id(this.sessionNodeId(sourceFile));
+        if (node.length === 0) {
+            return;
+        }
+        const def = this.createSessionNodeDefinition(sourceFile);
+        node.data(def.data);
+        node.removeClass('terminal-session-error terminal-session-running terminal-session-done ' +
+            'terminal-session-collapsed terminal-session-expanded');
+        node.addClass(def.classes as string[]);
+    }
+
+    private createProducedByEdge(terminal: TerminalState, fileName: string): EdgeDefinition {
+        const terminalId = new VizId(terminal.id, this.storeId()).toId();
+        const fileId = new VizId(fileName, 'core').toId();
+        return {
+            group: 'edges',
+            data: {
+                id: `${fileId}-produced-by->${terminalId}`,
+                source: fileId,
+                target: terminalId,
+                context: `Created by ${terminal.name}`,
+                edgeCount: 1,
+                type: 'produced-by'
+            },
+            classes: ['terminal-connection', 'type-produced-by']
+        };
+    }
+
+    // Adds a terminal node next to its source node, and connects the two if the source node is in the graph.
+    private addTerminalToGraph(graph: IJuggl, terminal: TerminalState, sourceId?: string): void {
+        if (this.groupBySource() && terminal.sourceFile) {
+            // The session has to exist before its terminals are added to it
+            const sessionDef = this.createSessionNodeDefinition(terminal.sourceFile);
+            if (graph.viz.$id(sessionDef.data.id).length === 0) {
+                graph.mergeToGraph([sessionDef], true, false);
+            }
+        }
+        const terminalNodeDef = this.createNodeDefinition(terminal);
+        if (!sourceId && terminal.sourceFile) {
+            sourceId = new VizId(terminal.sourceFile, 'core').toId();
+        }
+        const hasSource = sourceId && graph.viz.$id(sourceId).length > 0;
+
+        // If we have a source node, add linkedNodeIds to help with positioning
+        if (hasSource) {
+            // Use the full VizId string format that includes store ID
+            terminalNodeDef.data.linkedNodeIds = [sourceId];
+        }
+
+        // Use mergeToGraph for proper positioning
+        const mergeResult = graph.mergeToGraph([terminalNodeDef], true, false);
+        const terminalNode = mergeResult.added.nodes()[0];
+        console.log('[Juggl Terminal Debug] Terminal node added:', terminalNode?.id());
+
+        if (hasSource && terminalNode) {
+            // Also use mergeToGraph for the edge
+            graph.mergeToGraph([this.createConnectionEdge(sourceId, terminal)], true, false);
+        }
     }
 
     async refreshNode(id: VizId, view: IJuggl): Promise<void> {
-        if (id.storeId === this.storeId()) {
+        if (id.storeId === this.storeId() && this.isSessionId(id.id)) {
+            if (view.viz) {
+                this.refreshSessionNode(id.id.slice(SESSION_PREFIX.length), view);
+            }
+        } else if (id.storeId === this.storeId()) {
             const terminal = this.terminals.get(id.id);
             if (terminal && view.viz) {
                 const node = view.viz.$id(id.toId());
@@ -140,17 +806,23 @@ export class TerminalDataStore extends Component implements IDataStore {
                     // Update node data with current terminal state
                     node.data('status', terminal.status);
                     node.data('name', terminal.name);
+                    node.data('exitCode', terminal.exitCode);
+                    node.data('endedAt', terminal.endedAt?.toISOString());
                     
                     // Update visual classes based on status
-                    node.removeClass('terminal-active terminal-inactive terminal-error');
+                    node.removeClass('terminal-active terminal-inactive terminal-error terminal-queued');
                     node.addClass(`terminal-${terminal.status}`);
                 }
+                if (terminal.sourceFile) {
+                    this.refreshSessionNode(terminal.sourceFile, view);
+                }
             }
         }
     }
 
     private createNodeDefinition(terminal: TerminalState): NodeDefinition {
-        return {
+        const agentProfile = this.getAgentProfile(terminal.agent);
+        const def: NodeDefinition = {
             group: 'nodes',
             data: {
                 id: new VizId(terminal.id, this.storeId()).toId(),
@@ -160,7 +832,11 @@ export class TerminalDataStore extends Component implements IDataStore {
                 command: terminal.command,
                 profile: terminal.profile?.name || 'terminal',
                 timestamp: terminal.timestamp.toISOString(),
-                sourceFile: terminal.sourceFile
+                sourceFile: terminal.sourceFile,
+                agent: terminal.agent,
+                agentColor: agentProfile?.color,
+                exitCode: terminal.exitCode,
+                endedAt: terminal.endedAt?.toISOString()
             },
             classes: [
                 'terminal-node',
@@ -169,12 +845,20 @@ export class TerminalDataStore extends Component implements IDataStore {
                 terminal.sourceFile ? 'terminal-connected' : 'terminal-standalone'
             ]
         };
+        if (this.groupBySource() && terminal.sourceFile) {
+            def.data.parent = this.sessionNodeId(terminal.sourceFile);
+            if (this.collapsedSessions.has(terminal.sourceFile)) {
+                (def.classes as string[]).push('terminal-session-hidden');
+            }
+        }
+        return def;
     }
 
     // Method to add a new terminal
     addTerminal(terminal: TerminalState): void {
         this.terminals.set(terminal.id, terminal);
         this.events.trigger('createNode', terminal.id);
+        this.requestSave();
     }
 
     // Method to update terminal status
@@ -182,18 +866,67 @@ export class TerminalDataStore extends Component implements IDataStore {
         const terminal = this.terminals.get(id);
         if (terminal) {
             terminal.status = status;
+            terminal.updatedAt = new Date();
             this.events.trigger('modifyNode', id);
+            this.requestSave();
+            if (status !== 'active' && status !== 'queued') {
+                // An agent slot may have freed up
+                this.processAgentQueue();
+            }
         }
     }
 
     // Method to remove terminal
     removeTerminal(id: string): void {
+        this.ptyBridge.kill(id);
+        this.removeEnvFile(id);
+        this.agentQueue.remove(id);
         if (this.terminals.delete(id)) {
             this.events.trigger('deleteNode', id);
+            this.requestSave();
+            this.processAgentQueue();
         }
     }
 
-    async spawnTerminalInLeaf(terminalId: string, file?: TFile, extraEnv?: Record<string, string>): Promise<WorkspaceLeaf> {
+    // Respawns a terminal, for example one that was restored as inactive after a restart. A terminal whose
+    // shell is still running only gets its view opened, so that commands don't run twice in the same shell.
+    async respawnTerminal(terminalId: string): Promise<WorkspaceLeaf | null> {
+        const terminal = this.terminals.get(terminalId);
+        if (!terminal) {
+            console.error(`[Juggl Debug] Terminal ${terminalId} not found in store.`);
+            return null;
+        }
+        if (this.ptyBridge.has(terminalId)) {
+            const leaf = await this.getBackend()?.open(terminalId);
+            terminal.leaf = leaf || terminal.leaf;
+            return leaf || null;
+        }
+        const file = terminal.sourceFile ? this.app.metadataCache.getFirstLinkpathDest(terminal.sourceFile, '') : null;
+        const leaf = await this.spawnTerminalInLeaf(terminalId, file, this.agentEnv(terminal));
+        terminal.updatedAt = new Date();
+        this.requestSave();
+        return leaf;
+    }
+
+    // Stops a terminal and respawns it with the same working directory, environment and agent profile. The new
+    // shell is shown in the view of the old one, which is cleared when it starts.
+    async restartTerminal(terminalId: string): Promise<WorkspaceLeaf | null> {
+        const terminal = this.terminals.get(terminalId);
+        if (!terminal) {
+            console.error(`[Juggl Debug] Terminal ${terminalId} not found in store.`);
+            return null;
+        }
+        this.ptyBridge.kill(terminalId);
+        terminal.output = '';
+        terminal.exitCode = undefined;
+        terminal.endedAt = undefined;
+        return await this.respawnTerminal(terminalId);
+    }
+
+    // Spawns the shell of a terminal and opens its view with the configured backend. Headless terminals have
+    // no leaf, so null is also returned when they were spawned successfully.
+    async spawnTerminalInLeaf(terminalId: string, file?: TFile, extraEnv?: Record<string, string>,
+                              backend: TerminalBackend | null = this.getBackend()): Promise<WorkspaceLeaf | null> {
         console.log(`[Juggl Debug] Spawning terminal leaf for ID: ${terminalId}`);
         const terminal = this.terminals.get(terminalId);
         if (!terminal) {
@@ -201,194 +934,189 @@ export class TerminalDataStore extends Component implements IDataStore {
             return null;
         }
 
-        const terminalPlugin = this.app.plugins.plugins['terminal'];
-        if (!terminalPlugin) {
-            console.error('[Juggl Debug] Terminal plugin not found.');
+        if (!backend) {
+            console.error(`[Juggl Debug] Terminal backend ${this.plugin.settings?.terminalBackend} is not available.`);
+            this.updateTerminalStatus(terminalId, 'error');
             return null;
         }
 
-        // Write environment info to a file before spawning terminal
+        // Write environment info to a file before spawning terminal. The environment of the agent profile is
+        // only given to the shell itself, the file lives in the vault and may be synced.
         if (file) {
-            const vaultPath = (this.app.vault.adapter as any).basePath || '';
-            
-            // Build extra environment variables if provided
-            let extraEnvExports = '';
-            if (extraEnv) {
-                for (const [key, value] of Object.entries(extraEnv)) {
-                    extraEnvExports += `export ${key}="${value}"\n`;
-                }
+            await this.writeEnvFile(terminalId, file, extraEnv?.agent ? { agent: extraEnv.agent } : undefined);
+        }
+
+        // The view is opened first, so that the shell can size its terminal to fit it
+        const newLeaf = await backend.open(terminalId);
+        if (backend.hasView && !newLeaf) {
+            this.updateTerminalStatus(terminalId, 'error');
+            return null;
+        }
+        terminal.leaf = newLeaf || undefined;
+
+        // The view only shows the shell we own, so without it there is nothing to interact with
+        const view = newLeaf?.view.getViewType() === JUGGL_TERMINAL_VIEW_TYPE ? newLeaf.view as JugglTerminalView : null;
+        if (!file || !this.startPty(terminalId, file, extraEnv, view?.size())) {
+            console.error(`[Juggl Debug] Could not start the shell of terminal ${terminalId}.`);
+            this.updateTerminalStatus(terminalId, 'error');
+            return null;
+        }
+        terminal.status = 'active';
+        const command = this.plugin.settings?.terminalCommand;
+        if (command) {
+            const processedCommand = this.fillCommandTemplate(command, file);
+            console.log(`[Juggl Debug] Running user command: ${processedCommand}`);
+            this.runCommand(terminalId, processedCommand);
+        }
+        const agentProfile = this.getAgentProfile(terminal.agent);
+        if (agentProfile?.command) {
+            const agentCommand = this.fillCommandTemplate(agentProfile.command, file);
+            console.log(`[Juggl Debug] Launching agent ${agentProfile.name}: ${agentCommand}`);
+            // The shell exits with the agent, so its exit code ends up on the node
+            this.ptyBridge.runCommandAndExit(terminalId, agentCommand);
+        }
+        this.events.trigger('modifyNode', terminalId);
+        return newLeaf;
+    }
+
+    getBackend(): TerminalBackend | null {
+        return selectBackend(this.plugin.settings?.terminalBackend, this.backends);
+    }
+
+    private vaultPath(): string {
+        // Only the desktop adapter has a base path, terminals don't run on mobile
+        return (this.app.vault.adapter as FileSystemAdapter).getBasePath?.() || '';
+    }
+
+    getAgentProfile(name?: string): AgentProfile | undefined {
+        if (!name) {
+            return undefined;
+        }
+        return this.plugin.settings?.agentProfiles?.find((p) => p.name === name);
+    }
+
+    // The extra environment of a terminal. It is looked up from the agent profile whenever the terminal is
+    // spawned, so that secrets like API keys only live in the settings and are not persisted with the terminal.
+    private agentEnv(terminal: TerminalState): Record<string, string> | undefined {
+        const profile = this.getAgentProfile(terminal.agent);
+        return profile ? { agent: profile.name, ...profile.env } : undefined;
+    }
+
+    private fillCommandTemplate(command: string, file: TFile): string {
+        return command
+            .replace(/{{source_note_path}}/g, file.path)
+            .replace(/{{source_note_name}}/g, file.name)
+            .replace(/{{source_note_basename}}/g, file.basename);
+    }
+
+    // Resolves the vault-relative working directory for an agent spawned from the given file.
+    private workingDirFor(file: TFile, profile?: AgentProfile): string {
+        switch (profile?.workingDir) {
+            case 'vault-root': return '/';
+            case 'custom': return profile.customDir || '/';
+            default: return file.parent?.path || '/';
+        }
+    }
+
+    // Vault-relative path of the env file of a terminal. Each terminal gets its own file, so that
+    // terminals spawned back to back don't overwrite each other's context.
+    envFilePath(terminalId: string): string {
+        return `${this.app.vault.configDir}/.juggl_terminal_env_${terminalId.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+    }
+
+    // The environment a terminal spawned from the given file runs with
+    private terminalEnv(terminalId: string, file: TFile, extraEnv?: Record<string, string>): Record<string, string> {
+        const path = require('path');
+        const vaultPath = this.vaultPath();
+        return {
+            JUGGL_TERMINAL_ID: terminalId,
+            JUGGL_TERMINAL_ENV: path.join(vaultPath, this.envFilePath(terminalId)),
+            OBSIDIAN_SOURCE_NOTE: file.path,
+            OBSIDIAN_SOURCE_BASENAME: file.basename,
+            OBSIDIAN_SOURCE_NAME: file.name,
+            OBSIDIAN_SOURCE_DIR: file.parent.path,
+            OBSIDIAN_VAULT_PATH: vaultPath,
+            ...extraEnv,
+        };
+    }
+
+    private async writeEnvFile(terminalId: string, file: TFile, extraEnv?: Record<string, string>): Promise<void> {
+        const env = this.terminalEnv(terminalId, file, extraEnv);
+        let exports = '';
+        for (const [key, value] of Object.entries(env)) {
+            if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+                console.warn(`[Juggl Debug] Skipping invalid environment variable name: ${key}`);
+                continue;
             }
-            
-            const envContent = `#!/bin/bash
+            exports += `export ${key}=${shellQuote(value)}\n`;
+        }
+
+        const envContent = `#!/bin/bash
 # Obsidian Terminal Environment
 # Generated by Juggl plugin at ${new Date().toISOString()}
-# Source markdown: ${file.path}
+# Source markdown: ${file.path.replace(/\n/g, ' ')}
 
-export OBSIDIAN_SOURCE_NOTE="${file.path}"
-export OBSIDIAN_SOURCE_BASENAME="${file.basename}"
-export OBSIDIAN_SOURCE_NAME="${file.name}"
-export OBSIDIAN_SOURCE_DIR="${file.parent.path}"
-export OBSIDIAN_VAULT_PATH="${vaultPath}"
-
-# Extra environment variables
-${extraEnvExports}
+${exports}
 # Display info
-echo "Terminal opened from: ${file.name}"
-echo "Full path: ${file.path}"
-echo "Vault: ${vaultPath}"
-echo "Use \\$OBSIDIAN_SOURCE_NOTE to reference the source file"
-${extraEnv?.agent ? `echo "Agent: ${extraEnv.agent}"` : ''}
+echo ${shellQuote(`Terminal opened from: ${file.name}`)}
+echo ${shellQuote(`Full path: ${file.path}`)}
+echo ${shellQuote(`Vault: ${env.OBSIDIAN_VAULT_PATH}`)}
+echo 'Use $OBSIDIAN_SOURCE_NOTE to reference the source file'
+echo ${shellQuote(`Add '${TERMINAL_CREATED_BY_KEY}: ${terminalId}' to the frontmatter of notes you create`)}
+${extraEnv?.agent ? `echo ${shellQuote(`Agent: ${extraEnv.agent}`)}` : ''}
 echo "─────────────────────────────────────────────"
 `;
-            
-            // Write to a file in the vault's .obsidian directory
-            const envPath = this.app.vault.configDir + '/.juggl_terminal_env';
-            try {
-                await this.app.vault.adapter.write(envPath, envContent);
-                console.log(`[Juggl Debug] Wrote terminal env to: ${envPath}`);
-            } catch (e) {
-                console.error('[Juggl Debug] Failed to write terminal env file:', e);
-            }
-        }
 
-        const leavesBefore = new Set(this.app.workspace.getLeavesOfType('terminal:terminal'));
-        console.log(`[Juggl Debug] Found ${leavesBefore.size} terminal leaves before command.`);
+        // Write to a file in the vault's .obsidian directory
+        const envPath = this.envFilePath(terminalId);
+        try {
+            await this.app.vault.adapter.write(envPath, envContent);
+            console.log(`[Juggl Debug] Wrote terminal env to: ${envPath}`);
+        } catch (e) {
+            console.error('[Juggl Debug] Failed to write terminal env file:', e);
+        }
+    }
 
+    private async removeEnvFile(terminalId: string): Promise<void> {
+        const envPath = this.envFilePath(terminalId);
         try {
-            await this.app.commands.executeCommandById('terminal:open-terminal.integrated.root');
-
-            let newLeaf: WorkspaceLeaf = null;
-            for (let i = 0; i < 10; i++) {
-                await new Promise(resolve => setTimeout(resolve, 100));
-                const leavesAfter = this.app.workspace.getLeavesOfType('terminal:terminal');
-                const foundLeaf = leavesAfter.find(leaf => !leavesBefore.has(leaf));
-                if (foundLeaf) {
-                    newLeaf = foundLeaf;
-                    break;
-                }
+            if (await this.app.vault.adapter.exists(envPath)) {
+                await this.app.vault.adapter.remove(envPath);
             }
-            // THIS FOLLOWING CODE IS NOT WORKING
-            if (newLeaf) {
-                console.log(`[Juggl Debug] New terminal leaf identified: ${newLeaf.view.getViewType()}`);
-                terminal.leaf = newLeaf;
-                terminal.status = 'active';
-
-                // IMPORTANT: The following code attempts to send commands to the terminal programmatically
-                // but it doesn't work because:
-                // 1. The terminal plugin doesn't expose a proper API to access the terminal object
-                // 2. Even when we find the terminal object, terminal.write() only displays text but doesn't execute it
-                // 3. We tried different control characters (\r, \n, \r\n) but none actually execute the command
-                // 4. The terminal.write() method from xterm.js only writes to the display, not to the shell's stdin
-                // 5. To actually execute commands, we'd need access to the underlying pseudoterminal process,
-                //    which the terminal plugin doesn't expose
-                // 
-                // Instead, we use the print -z approach in .zshrc which pre-fills the command line and lets
-                // the user press Enter to execute it.
-                
-                /*
-                // Try to access the terminal from the leaf's view
-                if (file && newLeaf.view) {
-                    console.log(`[Juggl Debug] Checking for terminal in leaf.view...`);
-                    
-                    // Wait longer for terminal to fully initialize
-                    setTimeout(() => {
-                        const termView = newLeaf.view as any;
-                        console.log(`[Juggl Debug] termView after delay:`, !!termView);
-                        console.log(`[Juggl Debug] termView properties after delay:`, Object.keys(termView));
-                        
-                        // Check all properties recursively to find terminal
-                        for (const prop of Object.keys(termView)) {
-                            if (prop.includes('terminal') || prop.includes('emulator')) {
-                                console.log(`[Juggl Debug] Found property ${prop}:`, !!termView[prop]);
-                            }
-                        }
-                        
-                        // Try to find the terminal in different locations
-                        const terminal = termView.terminal || 
-                                       termView.emulator?.terminal || 
-                                       termView._terminal ||
-                                       termView.terminalEmulator?.terminal ||
-                                       termView.getTerminal?.();
-                        
-                        if (terminal) {
-                            console.log(`[Juggl Debug] Terminal object found after delay!`);
-                            console.log(`[Juggl Debug] terminal.write is function:`, typeof terminal.write === 'function');
-                            
-                            // Try different approaches to send the command
-                            setTimeout(() => {
-                            console.log(`[Juggl Debug] Attempting to send command to terminal`);
-                            console.log(`[Juggl Debug] terminal exists:`, !!terminal);
-                            console.log(`[Juggl Debug] terminal.write is function:`, typeof terminal.write === 'function');
-                            
-                            // Check if we should run an agent
-                            if (extraEnv?.agent) {
-                                const agentScript = extraEnv.agent === 'claude' 
-                                    ? '/Users/bobbobby/repos/VoiceTree/tools/claude.sh'
-                                    : '/Users/bobbobby/repos/VoiceTree/tools/gemini.sh';
-                                
-                                console.log(`[Juggl Debug] Running agent script: ${agentScript}`);
-                                
-                                try {
-                                    // Use write method (the correct xterm.js method)
-                                traversal fixup                                        console.log(`[Juggl Debug] Using terminal.write method`);
-                                        // Try different control characters for Enter
-                                        terminal.write(`${agentScript}\r`); // Just carriage return (Enter key)
-                                        // Alternative: terminal.write(`${agentScript}\n`); // Just newline
-                                        // Alternative: terminal.write(`${agentScript}\x0D`); // Hex code for CR
-                                    } else {
-                                        console.error(`[Juggl Debug] terminal.write method not available`);
-                                    }
-                                } catch (error) {
-                                    console.error(`[Juggl Debug] Error sending command:`, error);
-                                }
-                            }
-                            
-                            // Change to directory
-                            const dir = file.parent.path;
-                            if (dir && terminal.write) {
-                                console.log(`[Juggl Debug] Changing directory to: ${dir}`);
-                                terminal.write(`cd "${dir}"\r`);
-                            }
-                            
-                            // Run user-defined command if any
-                            const command = this.plugin.settings?.terminalCommand;
-                            if (command) {
-                                const processedCommand = command
-                                    .replace(/{{source_note_path}}/g, file.path)
-                                    .replace(/{{source_note_name}}/g, file.name)
-                                    .replace(/{{source_note_basename}}/g, file.basename);
-                                
-                                console.log(`[Juggl Debug] Running user command: ${processedCommand}`);
-                                if (terminal.write) {
-                                    terminal.write(`${processedCommand}\r`);
-                                }
-                            }
-                        }, 1000); // Increased wait time
-                        } else {
-                            console.log(`[Juggl Debug] No terminal object found after delay`);
-                        }
-                    }, 2000); // Wait for terminal to initialize
-                } else {
-                    console.log(`[Juggl Debug] No file or newLeaf.view not available`);
-                }
-                */
-                this.events.trigger('modifyNode', terminalId);
-                return newLeaf;
-            } else {
-                console.error(`[Juggl Debug] Could not find new terminal leaf.`);
-                terminal.status = 'error';
-                this.events.trigger('modifyNode', terminalId);
-                return null;
-            }
-        } catch (error) {
-            console.error('[Juggl Debug] Error executing command to open terminal:', error);
-            terminal.status = 'error';
-            this.events.trigger('modifyNode', terminalId);
-            return null;
+        } catch (e) {
+            console.error('[Juggl Debug] Failed to remove terminal env file:', e);
         }
     }
 
-    async spawnTerminalForHoverEditor(terminalId: string): Promise<WorkspaceLeaf> {
+    // Starts the shell process behind a terminal, with the same environment as the env file.
+    startPty(terminalId: string, file: TFile, extraEnv?: Record<string, string>,
+             size?: { cols: number, rows: number }): boolean {
+        const terminal = this.terminals.get(terminalId);
+        if (!terminal) {
+            return false;
+        }
+        const path = require('path');
+        const vaultPath = this.vaultPath();
+        const env = this.terminalEnv(terminalId, file, extraEnv);
+        const cwd = !terminal.cwd || terminal.cwd === '/' ? vaultPath : path.resolve(vaultPath, terminal.cwd);
+        return this.ptyBridge.spawn(terminalId, {
+            cwd: cwd,
+            env: env,
+            ...size,
+        });
+    }
+
+    // Writes raw input to the shell of a terminal
+    sendInput(terminalId: string, text: string): boolean {
+        return this.ptyBridge.sendInput(terminalId, text);
+    }
+
+    // Executes a command in the shell of a terminal, as if the user typed it and pressed Enter
+    runCommand(terminalId: string, cmd: string): boolean {
+        return this.ptyBridge.runCommand(terminalId, cmd);
+    }
+
+    async spawnTerminalForHoverEditor(terminalId: string): Promise<WorkspaceLeaf | null> {
         console.log(`[Juggl Debug] Spawning clean terminal leaf for hover editor: ${terminalId}`);
         const terminal = this.terminals.get(terminalId);
         if (!terminal) {
@@ -396,46 +1124,19 @@ echo "────────────────────────
             return null;
         }
 
-        const terminalPlugin = this.app.plugins.plugins['terminal'];
-        if (!terminalPlugin) {
-            console.error('[Juggl Debug] Terminal plugin not found.');
-            return null;
+        // Hover editors need a leaf, so this always uses the terminal view, also for headless terminals
+        if (!this.ptyBridge.has(terminalId)) {
+            const file = terminal.sourceFile ? this.app.metadataCache.getFirstLinkpathDest(terminal.sourceFile, '') : undefined;
+            return await this.spawnTerminalInLeaf(terminalId, file || undefined, this.agentEnv(terminal),
+                this.viewBackend);
         }
-
-        const leavesBefore = new Set(this.app.workspace.getLeavesOfType('terminal:terminal'));
-        
-        try {
-            await this.app.commands.executeCommandById('terminal:open-terminal.integrated.root');
-
-            let newLeaf: WorkspaceLeaf = null;
-            for (let i = 0; i < 10; i++) {
-                await new Promise(resolve => setTimeout(resolve, 100));
-                const leavesAfter = this.app.workspace.getLeavesOfType('terminal:terminal');
-                const foundLeaf = leavesAfter.find(leaf => !leavesBefore.has(leaf));
-                if (foundLeaf) {
-                    newLeaf = foundLeaf;
-                    break;
-                }
-            }
-
-            if (newLeaf) {
-                console.log(`[Juggl Debug] New clean terminal leaf identified: ${newLeaf.view.getViewType()}`);
-                terminal.leaf = newLeaf;
-                terminal.status = 'active';
-                this.events.trigger('modifyNode', terminalId);
-                return newLeaf;
-            } else {
-                console.error(`[Juggl Debug] Could not find new clean terminal leaf.`);
-                terminal.status = 'error';
-                this.events.trigger('modifyNode', terminalId);
-                return null;
-            }
-        } catch (error) {
-            console.error('[Juggl Debug] Error executing command to open clean terminal:', error);
-            terminal.status = 'error';
-            this.events.trigger('modifyNode', terminalId);
-            return null;
+        const newLeaf = await this.viewBackend.open(terminalId);
+        if (newLeaf) {
+            terminal.leaf = newLeaf;
+            return newLeaf;
         }
+        this.updateTerminalStatus(terminalId, 'error');
+        return null;
     }
 
     // Method to convert terminal leaf to hover editor
@@ -456,9 +1157,9 @@ echo "────────────────────────
         let leafToConvert = terminal.leaf;
 
         // If the leaf doesn't exist or is invalid, spawn a new one using the clean method.
-        if (!leafToConvert || leafToConvert.view.getViewType() !== 'terminal:terminal') {
+        if (!leafToConvert || leafToConvert.view.getViewType() !== JUGGL_TERMINAL_VIEW_TYPE) {
             console.log('[Juggl Debug] No valid leaf found. Spawning new clean terminal for hover editor...');
-            leafToConvert = await this.spawnTerminalForHoverEditor(terminalId);
+            leafToConvert = await this.spawnTerminalForHoverEditor(terminalId) || undefined;
             if (!leafToConvert) {
                 console.error('[Juggl Debug] Failed to spawn clean terminal for hover editor.');
                 return;
@@ -552,87 +1253,106 @@ echo "────────────────────────
         }
     }
 
-    // Method to spawn terminal connected to a specific file
-    async spawnTerminalForFile(fileName: string, sourceNode?: any, extraEnv?: Record<string, string>): Promise<void> {
+    // Method to spawn terminal connected to a specific file, optionally launching a coding agent in it
+    async spawnTerminalForFile(fileName: string, sourceNode?: any, profile?: AgentProfile): Promise<void> {
         const file = this.app.metadataCache.getFirstLinkpathDest(fileName, '');
         if (!file) {
             console.error(`File not found: ${fileName}`);
             return;
         }
+        const terminal = this.createTerminalForFile(file, fileName, 'active',
+            sourceNode ? VizId.fromNode(sourceNode).toId() : undefined, profile);
+
+        // Spawn terminal immediately with environment variables set
+        await this.queueSpawn(terminal.id);
+    }
+
+    // Spawns a terminal running the agent for each of the given core nodes. At most maxConcurrentAgents agents
+    // run at the same time, the remaining terminals are queued until a running agent finishes.
+    runAgentOnNodes(nodes: NodeCollection, profile: AgentProfile): void {
+        // @ts-ignore
+        for (const node of nodes) {
+            const id = VizId.fromNode(node);
+            if (id.storeId !== 'core') {
+                continue;
+            }
+            const file = this.app.metadataCache.getFirstLinkpathDest(id.id, '');
+            if (!file) {
+                console.error(`File not found: ${id.id}`);
+                continue;
+            }
+            const terminal = this.createTerminalForFile(file, id.id, 'queued', id.toId(), profile);
+            this.agentQueue.push(terminal.id);
+        }
+        this.processAgentQueue();
+    }
+
+    private runningAgentCount(): number {
+        return [...this.terminals.values()].filter((t) => t.agent && t.status === 'active').length;
+    }
 
-        const filePath = file.path;
-        const fileDir = filePath.substring(0, filePath.lastIndexOf('/')) || '/';
+    processAgentQueue(): void {
+        const limit = Math.max(1, this.plugin.settings?.maxConcurrentAgents || 1);
+        while (this.agentQueue.length > 0 && this.runningAgentCount() < limit) {
+            const terminalId = this.agentQueue.shift();
+            const terminal = this.terminals.get(terminalId);
+            if (!terminal || terminal.status !== 'queued') {
+                continue;
+            }
+            console.log(`[Juggl Debug] Starting queued terminal ${terminalId}`);
+            // Claim the slot right away, spawning the leaf happens asynchronously
+            terminal.status = 'active';
+            this.queueSpawn(terminalId);
+        }
+    }
+
+    private queueSpawn(terminalId: string): Promise<WorkspaceLeaf | null> {
+        const spawned = this.spawnChain.then(() => this.respawnTerminal(terminalId));
+        this.spawnChain = spawned.catch((e) => console.error('[Juggl Debug] Failed to spawn terminal:', e));
+        return spawned;
+    }
 
-        const terminalId = `terminal-${fileName}-${Date.now()}`;
+    // Registers a terminal for the given file and adds it to all active graphs, next to the source node.
+    private createTerminalForFile(file: TFile, fileName: string, status: TerminalState['status'], sourceId?: string,
+                                  profile?: AgentProfile): TerminalState {
+        const fileDir = this.workingDirFor(file, profile);
+
+        const terminalId = `terminal-${fileName}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
         const terminalState: TerminalState = {
             id: terminalId,
-            name: `Terminal: ${fileName}`,
+            name: profile ? `${profile.name}: ${fileName}` : `Terminal: ${fileName}`,
             profile: { type: "integrated" },
             cwd: fileDir,
-            status: 'active',
+            status: status,
             workingDir: fileDir,
             command: `cd "${fileDir}"`,
             timestamp: new Date(),
-            sourceFile: fileName
+            updatedAt: new Date(),
+            sourceFile: fileName,
+            agent: profile?.name
         };
 
         this.terminals.set(terminalId, terminalState);
-
-        // Spawn terminal immediately with environment variables set
-        await this.spawnTerminalInLeaf(terminalId, file, extraEnv);
+        this.requestSave();
 
         this.plugin.activeGraphs().forEach(async (graph) => {
             if (graph && graph.viz) {
-                const terminalNodeDef = this.createNodeDefinition(terminalState);
-                
-                // If we have a source node, add linkedNodeIds to help with positioning
-                if (sourceNode) {
-                    const sourceId = VizId.fromNode(sourceNode).toId();
-                    const sourceVizId = VizId.fromNode(sourceNode);
-                    // Use the full VizId string format that includes store ID
-                    terminalNodeDef.data.linkedNodeIds = [sourceId];
-                    console.log('[Juggl Terminal Debug] Source node ID:', sourceId);
-                    console.log('[Juggl Terminal Debug] Source VizId:', sourceVizId);
-                    console.log('[Juggl Terminal Debug] Terminal node def with linkedNodeIds:', terminalNodeDef);
-                } else {
+                if (!sourceId) {
                     console.log('[Juggl Terminal Debug] No source node provided!');
                 }
-                
-                console.log('[Juggl Terminal Debug] Calling mergeToGraph for terminal node');
-                // Use mergeToGraph for proper positioning
-                const mergeResult = graph.mergeToGraph([terminalNodeDef], true, false);
-                const terminalNode = mergeResult.added.nodes()[0];
-                console.log('[Juggl Terminal Debug] Terminal node added:', terminalNode?.id());
-                
-                if (sourceNode && terminalNode) {
-                    const sourceId = VizId.fromNode(sourceNode).toId();
-                    const terminalId = new VizId(terminalState.id, this.storeId()).toId();
-                    
-                    const edge = {
-                        group: 'edges',
-                        data: {
-                            id: `${sourceId}->${terminalId}`,
-                            source: sourceId,
-                            target: terminalId,
-                            context: `Terminal for ${fileName}`,
-                            edgeCount: 1,
-                            type: 'terminal'
-                        },
-                        classes: ['terminal-connection', 'type-terminal']
-                    };
-                    
-                    console.log('[Juggl Terminal Debug] Adding edge from', sourceId, 'to', terminalId);
-                    // Also use mergeToGraph for the edge
-                    graph.mergeToGraph([edge], true, false);
-                }
+                this.addTerminalToGraph(graph, terminalState, sourceId);
 
                 console.log('[Juggl Terminal Debug] Triggering onGraphChanged');
                 graph.onGraphChanged(true, true);
             }
         });
+        return terminalState;
     }
 
     onunload() {
+        // Flush any pending save of the terminal registry
+        this.saveTerminals();
+        this.ptyBridge.killAll();
         // Clean up all hover editor tracking
         this.hoverEditorPositioning.cleanupAll();
         super.onunload();
@@ -0,0 +1,128 @@
+import { ItemView } from 'obsidian';
+import type { ViewStateResult, WorkspaceLeaf } from 'obsidian';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import type { TerminalDataStore } from './terminal-store';
+
+export const JUGGL_TERMINAL_VIEW_TYPE = 'juggl-terminal';
+
+export interface TerminalViewState {
+    terminalId: string;
+}
+
+/**
+ * Shows the shell of a terminal node. The shell is owned by the PtyBridge: its output since it started is
+ * replayed when the view opens, and everything typed in the view is written to its stdin. Restarting the
+ * terminal clears the view and shows the new shell.
+ */
+export class JugglTerminalView extends ItemView {
+    store: TerminalDataStore;
+    terminalId: string | null = null;
+    xterm: Terminal | null = null;
+    fitAddon: FitAddon | null = null;
+
+    constructor(leaf: WorkspaceLeaf, store: TerminalDataStore) {
+        super(leaf);
+        this.store = store;
+    }
+
+    getViewType(): string {
+        return JUGGL_TERMINAL_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return (this.terminalId && this.store.terminals.get(this.terminalId)?.name) || 'Terminal';
+    }
+
+    getIcon(): string {
+        return 'terminal-square';
+    }
+
+    async onOpen(): Promise<void> {
+        this.contentEl.empty();
+        this.contentEl.addClass('juggl-terminal-view');
+        const style = getComputedStyle(activeDocument.body);
+        this.xterm = new Terminal({
+            cursorBlink: true,
+            fontFamily: style.getPropertyValue('--font-monospace') || 'monospace',
+            fontSize: 13,
+            theme: {
+                background: style.getPropertyValue('--background-primary'),
+                foreground: style.getPropertyValue('--text-normal'),
+            },
+        });
+        this.fitAddon = new FitAddon();
+        this.xterm.loadAddon(this.fitAddon);
+        this.xterm.open(this.contentEl);
+        this.xterm.onData((data) => {
+            if (this.terminalId) {
+                this.store.sendInput(this.terminalId, data);
+            }
+        });
+        this.registerEvent(this.store.ptyBridge.on('spawn', (terminalId) => {
+            if (terminalId === this.terminalId) {
+                this.xterm?.reset();
+            }
+        }));
+        this.registerEvent(this.store.ptyBridge.on('data', (terminalId, data) => {
+            if (terminalId === this.terminalId) {
+                this.xterm?.write(data);
+            }
+        }));
+        this.registerEvent(this.store.ptyBridge.on('exit', (terminalId, code) => {
+            if (terminalId === this.terminalId) {
+                this.xterm?.write(`\r\n[Process exited with code ${code}]\r\n`);
+            }
+        }));
+        this.fit();
+    }
+
+    getState(): Record<string, unknown> {
+        return { ...super.getState(), terminalId: this.terminalId };
+    }
+
+    async setState(state: TerminalViewState, result: ViewStateResult): Promise<void> {
+        this.terminalId = state?.terminalId || null;
+        this.replay();
+        await super.setState(state, result);
+    }
+
+    onResize(): void {
+        this.fit();
+    }
+
+    async onClose(): Promise<void> {
+        this.xterm?.dispose();
+        this.xterm = null;
+        this.fitAddon = null;
+    }
+
+    // The size that the shell should give its pseudo-terminal to fill the view. The size is set when the shell
+    // starts, later resizes only refit the view.
+    size(): { cols: number, rows: number } {
+        return { cols: this.xterm?.cols || 120, rows: this.xterm?.rows || 30 };
+    }
+
+    private replay(): void {
+        if (!this.xterm) {
+            return;
+        }
+        this.xterm.reset();
+        if (!this.terminalId) {
+            return;
+        }
+        this.xterm.write(this.store.ptyBridge.history(this.terminalId));
+        if (!this.store.ptyBridge.has(this.terminalId)) {
+            // For example a view that was restored with the workspace after Obsidian restarted
+            this.xterm.write('\r\n[Terminal is not running. Restart it from its node.]\r\n');
+        }
+    }
+
+    private fit(): void {
+        // Fitting measures the element, which fails while the view is hidden
+        if (this.contentEl.offsetParent === null) {
+            return;
+        }
+        this.fitAddon?.fit();
+    }
+}
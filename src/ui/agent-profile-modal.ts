@@ -0,0 +1,25 @@
+import {App, FuzzySuggestModal} from 'obsidian';
+import type {AgentProfile} from '../settings';
+
+export class AgentProfileModal extends FuzzySuggestModal<AgentProfile> {
+  profiles: AgentProfile[];
+  callback: (profile: AgentProfile) => any;
+  constructor(app: App, profiles: AgentProfile[], callback: (profile: AgentProfile) => any) {
+    super(app);
+    this.profiles = profiles;
+    this.callback = callback;
+    this.setPlaceholder('Choose the agent to run');
+  }
+
+  getItemText(item: AgentProfile): string {
+    return item.name;
+  }
+
+  getItems(): AgentProfile[] {
+    return this.profiles;
+  }
+
+  onChooseItem(item: AgentProfile, evt: MouseEvent | KeyboardEvent): void {
+    this.callback(item);
+  }
+}
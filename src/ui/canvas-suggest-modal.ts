@@ -0,0 +1,23 @@
+import {App, FuzzySuggestModal, TFile} from 'obsidian';
+
+// Picks a canvas file of the vault
+export class CanvasSuggestModal extends FuzzySuggestModal<TFile> {
+  callback: (file: TFile) => any;
+  constructor(app: App, callback: (file: TFile) => any) {
+    super(app);
+    this.callback = callback;
+    this.setPlaceholder('Import canvas in a new view');
+  }
+
+  getItemText(item: TFile): string {
+    return item.path;
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getFiles().filter((file) => file.extension === 'canvas');
+  }
+
+  onChooseItem(item: TFile, evt: MouseEvent | KeyboardEvent): void {
+    this.callback(item);
+  }
+}
@@ -0,0 +1,48 @@
+import {App, SuggestModal} from 'obsidian';
+import {VizId} from 'juggl-api';
+import type JugglPlugin from '../main';
+import type {ObsidianStore} from '../obsidian-store';
+import type {Juggl} from '../viz/visualization';
+import type {SearchResult} from '../full-text-index';
+
+// Searches the content of notes, best matches first. A chosen note is selected in the graph if it is in it, and
+// opened otherwise.
+export class ContentSearchModal extends SuggestModal<SearchResult> {
+  plugin: JugglPlugin;
+  store: ObsidianStore;
+  view: Juggl;
+
+  constructor(app: App, plugin: JugglPlugin, store: ObsidianStore, view?: Juggl) {
+    super(app);
+    this.plugin = plugin;
+    this.store = store;
+    this.view = view;
+    this.setPlaceholder('Search note contents');
+  }
+
+  getSuggestions(query: string): SearchResult[] {
+    return this.store.contentIndex.search(query);
+  }
+
+  renderSuggestion(result: SearchResult, el: HTMLElement) {
+    const file = this.store.getFile(VizId.fromId(result.id));
+    el.createDiv({text: file?.basename || VizId.fromId(result.id).id});
+    if (file) {
+      el.createEl('small', {text: file.path, cls: 'juggl-search-path'});
+    }
+  }
+
+  async onChooseSuggestion(result: SearchResult, evt: MouseEvent | KeyboardEvent) {
+    const node = this.view?.viz?.$id(result.id);
+    if (node?.length > 0) {
+      this.view.viz.elements().unselect();
+      node.select();
+      this.view.viz.animate({center: {eles: node}});
+      return;
+    }
+    const file = this.store.getFile(VizId.fromId(result.id));
+    if (file) {
+      await this.plugin.openFile(file);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import {App, Modal, normalizePath, Notice, Setting} from 'obsidian';
+import type {NodeCollection, NodeSingular} from 'cytoscape';
+import {VizId} from 'juggl-api';
+import type {Juggl} from '../viz/visualization';
+import {EXPORT_FORMATS, exportGraph, graphFromNodes} from '../viz/graph-export';
+import type {ExportFormat} from '../viz/graph-export';
+
+// Exports the graph, or the selection, to the text format of another tool
+export class ExportModal extends Modal {
+  view: Juggl;
+  format: ExportFormat = 'mermaid';
+  selectionOnly: boolean;
+  outputEl: HTMLTextAreaElement;
+
+  constructor(app: App, view: Juggl) {
+    super(app);
+    this.view = view;
+    this.selectionOnly = view.viz.nodes(':selected').length > 0;
+  }
+
+  onOpen() {
+    super.onOpen();
+    this.titleEl.setText('Export graph');
+    new Setting(this.contentEl)
+        .setName('Format')
+        .addDropdown((dropdown) => {
+          for (const format of Object.keys(EXPORT_FORMATS) as ExportFormat[]) {
+            dropdown.addOption(format, EXPORT_FORMATS[format].name);
+          }
+          dropdown.setValue(this.format)
+              .onChange((value) => {
+                this.format = value as ExportFormat;
+                this.render();
+              });
+        });
+    new Setting(this.contentEl)
+        .setName('Only the selection')
+        .setDesc('Export the selected nodes and the edges between them, instead of all visible nodes.')
+        .addToggle((toggle) => {
+          toggle.setValue(this.selectionOnly)
+              .setDisabled(this.view.viz.nodes(':selected').length === 0)
+              .onChange((value) => {
+                this.selectionOnly = value;
+                this.render();
+              });
+        });
+    this.outputEl = this.contentEl.createEl('textarea', {cls: 'juggl-export-output'});
+    this.outputEl.readOnly = true;
+    new Setting(this.contentEl)
+        .addButton((button) => {
+          button.setButtonText('Copy to clipboard')
+              .setCta()
+              .onClick(async () => {
+                await navigator.clipboard.writeText(this.outputEl.value);
+                new Notice('Copied graph to clipboard');
+              });
+        })
+        .addButton((button) => {
+          button.setButtonText('Save to vault')
+              .onClick(() => this.save());
+        });
+    this.render();
+  }
+
+  nodes(): NodeCollection {
+    return this.selectionOnly ? this.view.viz.nodes(':selected') : this.view.viz.nodes(':visible');
+  }
+
+  filePath(node: NodeSingular): string {
+    const id = VizId.fromNode(node);
+    if (id.storeId !== this.view.datastores.coreStore.storeId()) {
+      return null;
+    }
+    return this.view.datastores.coreStore.getFile(id)?.path;
+  }
+
+  render() {
+    this.outputEl.value = exportGraph(graphFromNodes(this.nodes(), (node) => this.filePath(node)), this.format);
+  }
+
+  // Saves the export next to the active note, or in the root of the vault
+  async save() {
+    const vault = this.app.vault;
+    const folder = this.app.workspace.getActiveFile()?.parent?.path || '/';
+    const extension = EXPORT_FORMATS[this.format].extension;
+    let path = normalizePath(`${folder}/Juggl export.${extension}`);
+    for (let i = 1; vault.getAbstractFileByPath(path); i++) {
+      path = normalizePath(`${folder}/Juggl export ${i}.${extension}`);
+    }
+    try {
+      await vault.create(path, this.outputEl.value);
+      new Notice(`Exported graph to ${path}`);
+      this.close();
+    } catch (e) {
+      console.error('[Juggl Debug] Failed to export graph', e);
+      new Notice(`Could not export graph: ${e.message}`);
+    }
+  }
+}
@@ -32,6 +32,8 @@ export const icons: Record<string, string> = {
   ag_node_list: mdiIcons.mdiFormatListBulletedType,
   ag_style: mdiIcons.mdiPaletteOutline,
   ag_help: mdiIcons.mdiHelp,
+  ag_agent: mdiIcons.mdiRobotOutline,
+  ag_export: mdiIcons.mdiExportVariant,
 };
 
 export const addIcons = (): void => {
@@ -0,0 +1,129 @@
+import {App, Modal, normalizePath, Notice, Setting, TFile} from 'obsidian';
+import type {Juggl} from '../viz/visualization';
+import {renderImage} from '../viz/image-export';
+import type {ImageExportOptions, ImageFormat} from '../viz/image-export';
+
+const BACKGROUNDS: Record<string, string> = {
+  transparent: 'Transparent',
+  theme: 'Theme background',
+  white: 'White',
+  black: 'Black',
+};
+
+// Saves an image of the graph next to the active note, and optionally embeds it in the note
+export class ImageExportModal extends Modal {
+  view: Juggl;
+  // The note that was active when the modal was opened
+  note: TFile;
+  options: ImageExportOptions;
+  backgroundChoice = 'theme';
+  embed = false;
+
+  constructor(app: App, view: Juggl) {
+    super(app);
+    this.view = view;
+    this.note = app.workspace.getActiveFile();
+    this.options = {
+      format: 'png',
+      scale: 2,
+      background: '',
+      full: true,
+      selectionOnly: view.viz.nodes(':selected').length > 0,
+    };
+  }
+
+  onOpen() {
+    super.onOpen();
+    this.titleEl.setText('Export image');
+    new Setting(this.contentEl)
+        .setName('Format')
+        .addDropdown((dropdown) => {
+          dropdown.addOption('png', 'PNG')
+              .addOption('jpg', 'JPG')
+              .addOption('svg', 'SVG')
+              .setValue(this.options.format)
+              .onChange((value) => this.options.format = value as ImageFormat);
+        });
+    new Setting(this.contentEl)
+        .setName('Scale')
+        .setDesc('How many pixels of the image make up a pixel on the screen.')
+        .addSlider((slider) => {
+          slider.setLimits(1, 5, 1)
+              .setValue(this.options.scale)
+              .setDynamicTooltip()
+              .onChange((value) => this.options.scale = value);
+        });
+    new Setting(this.contentEl)
+        .setName('Background')
+        .addDropdown((dropdown) => {
+          for (const key of Object.keys(BACKGROUNDS)) {
+            dropdown.addOption(key, BACKGROUNDS[key]);
+          }
+          dropdown.setValue(this.backgroundChoice)
+              .onChange((value) => this.backgroundChoice = value);
+        });
+    new Setting(this.contentEl)
+        .setName('Full graph')
+        .setDesc('Export the whole graph. If disabled, only what is currently in view is exported.')
+        .addToggle((toggle) => {
+          toggle.setValue(this.options.full)
+              .onChange((value) => this.options.full = value);
+        });
+    new Setting(this.contentEl)
+        .setName('Only the selection')
+        .addToggle((toggle) => {
+          toggle.setValue(this.options.selectionOnly)
+              .setDisabled(this.view.viz.nodes(':selected').length === 0)
+              .onChange((value) => this.options.selectionOnly = value);
+        });
+    new Setting(this.contentEl)
+        .setName('Embed in note')
+        .setDesc(this.note?.extension === 'md' ? `Add the image to the end of ${this.note.basename}.` :
+            'Open a note to embed the image in it.')
+        .addToggle((toggle) => {
+          toggle.setValue(this.embed)
+              .setDisabled(this.note?.extension !== 'md')
+              .onChange((value) => this.embed = value);
+        });
+    new Setting(this.contentEl)
+        .addButton((button) => {
+          button.setButtonText('Export')
+              .setCta()
+              .onClick(() => this.export());
+        });
+  }
+
+  background(): string {
+    switch (this.backgroundChoice) {
+      case 'transparent':
+        return '';
+      case 'theme':
+        return getComputedStyle(this.view.element).getPropertyValue('--background-primary').trim() || 'white';
+      default:
+        return this.backgroundChoice;
+    }
+  }
+
+  async export() {
+    const vault = this.app.vault;
+    const folder = this.note?.parent?.path || '/';
+    const base = `${this.note?.basename || 'Juggl'} graph`;
+    let path = normalizePath(`${folder}/${base}.${this.options.format}`);
+    for (let i = 1; vault.getAbstractFileByPath(path); i++) {
+      path = normalizePath(`${folder}/${base} ${i}.${this.options.format}`);
+    }
+    try {
+      const image = await renderImage(this.view.viz, {...this.options, background: this.background()});
+      const file = typeof image === 'string' ? await vault.create(path, image) : await vault.createBinary(path, image);
+      if (this.embed && this.note) {
+        const link = this.app.fileManager.generateMarkdownLink(file, this.note.path);
+        await vault.append(this.note, `\n!${link}\n`);
+      }
+      new Notice(`Exported image to ${path}`);
+      this.close();
+    } catch (e) {
+      console.error('[Juggl Debug] Failed to export image', e);
+      new Notice(`Could not export image: ${e.message}`);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import {App, FuzzySuggestModal, Modal, Notice, Setting} from 'obsidian';
+import type JugglPlugin from '../main';
+import type {Juggl} from '../viz/visualization';
+import {findSavedQuery, savedQueryFromSettings} from '../viz/saved-queries';
+import type {SavedQuery} from '../viz/saved-queries';
+
+// Picks a saved query to apply to a graph
+export class SavedQuerySuggestModal extends FuzzySuggestModal<SavedQuery> {
+  queries: SavedQuery[];
+  callback: (query: SavedQuery) => any;
+  constructor(app: App, queries: SavedQuery[], callback: (query: SavedQuery) => any) {
+    super(app);
+    this.queries = queries;
+    this.callback = callback;
+    this.setPlaceholder('Apply saved query');
+  }
+
+  getItemText(item: SavedQuery): string {
+    return item.name;
+  }
+
+  getItems(): SavedQuery[] {
+    return this.queries;
+  }
+
+  onChooseItem(item: SavedQuery, evt: MouseEvent | KeyboardEvent): void {
+    this.callback(item);
+  }
+}
+
+// Saves the filter, layout and style groups of a graph as a saved query. Saving under an existing name replaces it.
+export class SavedQueryModal extends Modal {
+  plugin: JugglPlugin;
+  view: Juggl;
+  name = '';
+
+  constructor(app: App, plugin: JugglPlugin, view: Juggl) {
+    super(app);
+    this.plugin = plugin;
+    this.view = view;
+  }
+
+  onOpen() {
+    super.onOpen();
+    this.titleEl.setText('Save view as query');
+    this.contentEl.createEl('p', {text: `Filter: ${this.view.settings.filter || '(none)'}`});
+    new Setting(this.contentEl)
+        .setName('Name')
+        .addText((text) => {
+          text.setPlaceholder('e.g. Unreviewed outputs')
+              .onChange((value) => this.name = value.trim());
+          text.inputEl.addEventListener('keydown', (evt) => {
+            if (evt.key === 'Enter') {
+              this.save();
+            }
+          });
+        });
+    new Setting(this.contentEl)
+        .addButton((button) => {
+          button.setButtonText('Save')
+              .setCta()
+              .onClick(() => this.save());
+        });
+  }
+
+  async save() {
+    if (!this.name) {
+      new Notice('Give the query a name');
+      return;
+    }
+    const queries = this.plugin.settings.savedQueries;
+    const query = savedQueryFromSettings(this.name, this.view.settings);
+    const existing = findSavedQuery(queries, this.name);
+    if (existing) {
+      queries[queries.indexOf(existing)] = query;
+    } else {
+      queries.push(query);
+    }
+    try {
+      await this.plugin.saveData(this.plugin.settings);
+      new Notice(`Saved query ${this.name}`);
+      this.close();
+    } catch (e) {
+      console.error('[Juggl Debug] Failed to save query', e);
+      new Notice(`Could not save query: ${e.message}`);
+    }
+  }
+}
@@ -2,11 +2,13 @@ import {App, Modal} from 'obsidian';
 import SaveWorkspaces from './SaveWorkspaces.svelte';
 import type {WorkspaceManager} from '../viz/workspaces/workspace-manager';
 import type {Juggl} from '../viz/visualization';
+import {WorkspaceTimelineModal} from './workspace-timeline-modal';
 
+// Browser for saved workspaces. Without a view, workspaces can't be saved and are loaded in a new view.
 export class WorkspaceModal extends Modal {
   manager: WorkspaceManager;
   view: Juggl;
-  constructor(app: App, workspaceManager: WorkspaceManager, view: Juggl) {
+  constructor(app: App, workspaceManager: WorkspaceManager, view?: Juggl) {
     super(app);
     this.manager = workspaceManager;
     this.view = view;
@@ -14,13 +16,34 @@ export class WorkspaceModal extends Modal {
   onOpen() {
     super.onOpen();
     this.titleEl.innerHTML = 'Manage workspace graphs';
+    const plugin = this.manager.plugin;
     new SaveWorkspaces({
       target: this.contentEl,
       props: {
+        canSave: !!this.view,
         onSave: (s:string ) => this.manager.saveGraph(s, this.view),
         savedGraphs: this.manager.graphs,
-        onLoad: (s: string) => this.manager.loadGraph(s, this.view),
+        recentGraphs: this.manager.recentGraphs(),
+        validateName: (s: string) => this.manager.validateName(s),
+        onLoad: async (s: string) => {
+          if (this.view) {
+            await this.manager.loadGraph(s, this.view);
+          } else {
+            await plugin.openWorkspace(s);
+          }
+          this.close();
+        },
+        onOpen: async (s: string) => {
+          await plugin.openWorkspace(s);
+          this.close();
+        },
         onDelete: (s: string) => this.manager.deleteGraph(s, this.view),
+        onRename: (s: string, newName: string) => this.manager.renameGraph(s, newName),
+        onDuplicate: (s: string, newName: string) => this.manager.duplicateGraph(s, newName),
+        onHistory: (s: string) => {
+          this.close();
+          new WorkspaceTimelineModal(this.app, this.manager, this.view, s).open();
+        },
       },
     });
   }
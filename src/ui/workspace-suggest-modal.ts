@@ -0,0 +1,27 @@
+import {App, FuzzySuggestModal} from 'obsidian';
+import type {WorkspaceManager} from '../viz/workspaces/workspace-manager';
+
+// Picks a saved workspace. Recently opened workspaces are listed first.
+export class WorkspaceSuggestModal extends FuzzySuggestModal<string> {
+  manager: WorkspaceManager;
+  callback: (name: string) => any;
+  constructor(app: App, workspaceManager: WorkspaceManager, callback: (name: string) => any) {
+    super(app);
+    this.manager = workspaceManager;
+    this.callback = callback;
+    this.setPlaceholder('Open workspace in a new view');
+  }
+
+  getItemText(item: string): string {
+    return item;
+  }
+
+  getItems(): string[] {
+    const recent = this.manager.recentGraphs();
+    return recent.concat(this.manager.graphs.filter((name) => !recent.contains(name)).sort());
+  }
+
+  onChooseItem(item: string, evt: MouseEvent | KeyboardEvent): void {
+    this.callback(item);
+  }
+}
@@ -0,0 +1,169 @@
+import {App, Modal, Setting} from 'obsidian';
+import type {WorkspaceManager, SnapshotInfo} from '../viz/workspaces/workspace-manager';
+import type {Juggl} from '../viz/visualization';
+import type JugglPlugin from '../main';
+import {diffManifests} from '../viz/workspaces/workspace-manifest';
+import type {WorkspaceDiff, WorkspaceManifest} from '../viz/workspaces/workspace-manifest';
+import {SnapshotStore} from '../viz/workspaces/snapshot-store';
+
+// Lists the snapshots of a workspace. Snapshots can be previewed, compared and restored.
+export class WorkspaceTimelineModal extends Modal {
+  manager: WorkspaceManager;
+  plugin: JugglPlugin;
+  view: Juggl;
+  name: string;
+  snapshots: SnapshotInfo[] = [];
+  // Snapshots checked for comparison, at most two
+  compared: string[] = [];
+  listEl: HTMLElement;
+  detailEl: HTMLElement;
+  preview: Juggl;
+
+  constructor(app: App, workspaceManager: WorkspaceManager, view: Juggl | undefined, name: string) {
+    super(app);
+    this.manager = workspaceManager;
+    this.plugin = workspaceManager.plugin;
+    this.view = view;
+    this.name = name;
+  }
+
+  async onOpen() {
+    super.onOpen();
+    this.titleEl.setText(`History of ${this.name}`);
+    this.modalEl.addClass('juggl-timeline-modal');
+    this.listEl = this.contentEl.createDiv({cls: 'juggl-timeline-list'});
+    this.detailEl = this.contentEl.createDiv({cls: 'juggl-timeline-detail'});
+    this.snapshots = await this.manager.listSnapshots(this.name);
+    this.renderList();
+  }
+
+  renderList() {
+    this.listEl.empty();
+    if (this.snapshots.length === 0) {
+      this.listEl.createEl('p', {text: 'This workspace has no snapshots yet. They are made when saving it.'});
+      return;
+    }
+    new Setting(this.listEl)
+        .setDesc('Check two snapshots to compare them.')
+        .addButton((button) => {
+          button.setButtonText('Compare')
+              .setDisabled(this.compared.length !== 2)
+              .onClick(() => this.showDiff());
+        });
+    for (const snapshot of this.snapshots) {
+      new Setting(this.listEl)
+          .setName(snapshot.savedAt.toLocaleString())
+          .setDesc(`${snapshot.nodes} nodes, ${snapshot.edges} edges`)
+          .addToggle((toggle) => {
+            toggle.setValue(this.compared.contains(snapshot.id))
+                .setTooltip('Compare')
+                .onChange((value) => {
+                  if (value) {
+                    this.compared.push(snapshot.id);
+                    if (this.compared.length > 2) {
+                      this.compared.shift();
+                    }
+                  } else {
+                    this.compared.remove(snapshot.id);
+                  }
+                  this.renderList();
+                });
+          })
+          .addButton((button) => {
+            button.setButtonText('Preview')
+                .onClick(() => this.showPreview(snapshot));
+          })
+          .addButton((button) => {
+            button.setButtonText('Restore')
+                .setWarning()
+                .onClick(async () => {
+                  await this.manager.restoreSnapshot(this.name, snapshot.id, this.view);
+                  if (!this.view) {
+                    await this.plugin.openWorkspace(this.name);
+                  }
+                  this.close();
+                });
+          });
+    }
+  }
+
+  // Shows the snapshot in a read-only graph. It gets its nodes from the snapshot instead of the vault.
+  async showPreview(snapshot: SnapshotInfo) {
+    this.clearDetail();
+    this.detailEl.createEl('h4', {text: `Snapshot of ${snapshot.savedAt.toLocaleString()}`});
+    let manifest: WorkspaceManifest;
+    try {
+      manifest = await this.manager.readSnapshot(this.name, snapshot.id);
+    } catch (e) {
+      this.showError(e);
+      return;
+    }
+    const settings = Object.assign({}, this.plugin.settings.embedSettings, manifest.settings, {
+      toolbar: false,
+      navigator: false,
+      mode: 'workspace',
+      height: '400px',
+      width: '100%',
+    });
+    const store = new SnapshotStore(manifest);
+    const graph = this.plugin.createJuggl(this.detailEl.createDiv(), settings,
+        {coreStore: store, dataStores: [store]}) as Juggl;
+    this.preview = graph;
+    graph.on('vizReady', () => {
+      graph.viz.json(manifest.graph);
+      // Read-only: no menus, selection or dragging
+      graph.removeChild(graph.mode);
+      graph.viz.autolock(true);
+      graph.viz.autounselectify(true);
+      graph.viz.fit();
+    });
+    this.plugin.addChild(graph);
+  }
+
+  // Compares the older of the two checked snapshots to the newer one
+  async showDiff() {
+    this.clearDetail();
+    const [a, b] = this.compared
+        .map((id) => this.snapshots.find((s) => s.id === id))
+        .sort((x, y) => x.savedAt.getTime() - y.savedAt.getTime());
+    this.detailEl.createEl('h4', {text: `Changes from ${a.savedAt.toLocaleString()} to ${b.savedAt.toLocaleString()}`});
+    let diff: WorkspaceDiff;
+    try {
+      diff = diffManifests(await this.manager.readSnapshot(this.name, a.id),
+          await this.manager.readSnapshot(this.name, b.id));
+    } catch (e) {
+      this.showError(e);
+      return;
+    }
+    const section = (title: string, ids: string[], cls: string) => {
+      const details = this.detailEl.createEl('details', {cls: `juggl-timeline-diff ${cls}`});
+      details.createEl('summary', {text: `${title} (${ids.length})`});
+      const list = details.createEl('ul');
+      for (const id of ids) {
+        list.createEl('li', {text: id});
+      }
+    };
+    section('Added nodes', diff.addedNodes, 'juggl-diff-added');
+    section('Removed nodes', diff.removedNodes, 'juggl-diff-removed');
+    section('Added edges', diff.addedEdges, 'juggl-diff-added');
+    section('Removed edges', diff.removedEdges, 'juggl-diff-removed');
+  }
+
+  showError(e: Error) {
+    const errorElement = this.detailEl.createDiv({cls: 'juggl-error'});
+    errorElement.innerText = e.message;
+  }
+
+  clearDetail() {
+    if (this.preview) {
+      this.plugin.removeChild(this.preview);
+      this.preview = null;
+    }
+    this.detailEl.empty();
+  }
+
+  onClose() {
+    this.clearDetail();
+    super.onClose();
+  }
+}
@@ -0,0 +1,207 @@
+// Serializes graphs to text formats of other tools.
+import type {EdgeSingular, NodeCollection, NodeSingular} from 'cytoscape';
+
+export type ExportFormat = 'mermaid' | 'dot' | 'graphml' | 'canvas';
+
+export const EXPORT_FORMATS: Record<ExportFormat, {name: string, extension: string}> = {
+  mermaid: {name: 'Mermaid flowchart', extension: 'mmd'},
+  dot: {name: 'Graphviz DOT', extension: 'dot'},
+  graphml: {name: 'GraphML', extension: 'graphml'},
+  canvas: {name: 'JSON Canvas', extension: 'canvas'},
+};
+
+export interface ExportNode {
+  id: string;
+  label: string;
+  // Center of the node
+  x: number;
+  y: number;
+  // Hex colour, if the node has one
+  color?: string;
+  // Path of the file in the vault, if the node is a file
+  file?: string;
+}
+
+export interface ExportEdge {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  color?: string;
+}
+
+export interface ExportGraph {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+}
+
+// Nodes are small in Juggl but cards on a canvas show text, so the canvas is spread out
+export const CANVAS_SCALE = 5;
+const CANVAS_NODE_WIDTH = 250;
+const CANVAS_NODE_HEIGHT = 60;
+
+// Takes the nodes and the edges between them. Colours are taken from the rendered style, so they include those of
+// style groups.
+export function graphFromNodes(nodes: NodeCollection, filePath: (node: NodeSingular) => string): ExportGraph {
+  return {
+    nodes: nodes.map((node) => {
+      const position = node.position();
+      return {
+        id: node.id(),
+        label: node.data('name') || node.id(),
+        x: position.x,
+        y: position.y,
+        color: toHex(node.style('background-color')),
+        file: filePath(node) || undefined,
+      };
+    }),
+    edges: nodes.edgesWith(nodes).map((edge: EdgeSingular) => ({
+      id: edge.id(),
+      source: edge.source().id(),
+      target: edge.target().id(),
+      label: edge.data('type') || undefined,
+      color: toHex(edge.style('line-color')),
+    })),
+  };
+}
+
+export function exportGraph(graph: ExportGraph, format: ExportFormat): string {
+  switch (format) {
+    case 'mermaid':
+      return toMermaid(graph);
+    case 'dot':
+      return toDot(graph);
+    case 'graphml':
+      return toGraphML(graph);
+    case 'canvas':
+      return toCanvas(graph);
+  }
+}
+
+// Mermaid has no positions, the layout is left to Mermaid.
+export function toMermaid(graph: ExportGraph): string {
+  const lines = ['flowchart LR'];
+  // Mermaid ids can't contain most characters, so number the nodes
+  const ids: Record<string, string> = {};
+  graph.nodes.forEach((node, i) => {
+    ids[node.id] = `n${i}`;
+    lines.push(`  n${i}["${node.label.replace(/"/g, '#quot;')}"]`);
+  });
+  const edges = graph.edges.filter((edge) => edge.source in ids && edge.target in ids);
+  for (const edge of edges) {
+    const label = edge.label ? `|"${edge.label.replace(/"/g, '#quot;')}"|` : '';
+    lines.push(`  ${ids[edge.source]} -->${label} ${ids[edge.target]}`);
+  }
+  graph.nodes.forEach((node, i) => {
+    if (node.color) {
+      lines.push(`  style n${i} fill:${node.color}`);
+    }
+  });
+  edges.forEach((edge, i) => {
+    if (edge.color) {
+      lines.push(`  linkStyle ${i} stroke:${edge.color}`);
+    }
+  });
+  return lines.join('\n') + '\n';
+}
+
+export function toDot(graph: ExportGraph): string {
+  const quote = (s: string) => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const attributes = (attrs: Record<string, string>) => Object.keys(attrs)
+      .filter((key) => attrs[key] !== undefined)
+      .map((key) => `${key}=${quote(attrs[key])}`)
+      .join(', ');
+  const lines = ['digraph juggl {'];
+  for (const node of graph.nodes) {
+    // DOT positions are in points with the y-axis pointing up. The ! pins the node for neato and fdp.
+    lines.push(`  ${quote(node.id)} [${attributes({
+      label: node.label,
+      pos: `${round(node.x)},${round(-node.y)}!`,
+      style: node.color ? 'filled' : undefined,
+      fillcolor: node.color,
+    })}];`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${quote(edge.source)} -> ${quote(edge.target)} [${attributes({
+      label: edge.label,
+      color: edge.color,
+    })}];`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+export function toGraphML(graph: ExportGraph): string {
+  const escape = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  const data = (key: string, value: string | number) =>
+    value === undefined ? [] : [`      <data key="${key}">${escape(String(value))}</data>`];
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="color" for="node" attr.name="color" attr.type="string"/>',
+    '  <key id="file" for="node" attr.name="file" attr.type="string"/>',
+    '  <key id="type" for="edge" attr.name="type" attr.type="string"/>',
+    '  <key id="edgecolor" for="edge" attr.name="color" attr.type="string"/>',
+    '  <graph id="juggl" edgedefault="directed">',
+  ];
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${escape(node.id)}">`,
+        ...data('label', node.label),
+        ...data('x', round(node.x)),
+        ...data('y', round(node.y)),
+        ...data('color', node.color),
+        ...data('file', node.file),
+        '    </node>');
+  }
+  for (const edge of graph.edges) {
+    lines.push(`    <edge id="${escape(edge.id)}" source="${escape(edge.source)}" target="${escape(edge.target)}">`,
+        ...data('type', edge.label),
+        ...data('edgecolor', edge.color),
+        '    </edge>');
+  }
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+// https://jsoncanvas.org/spec/1.0/. Files become file cards, other nodes text cards with their label.
+export function toCanvas(graph: ExportGraph): string {
+  const nodes = graph.nodes.map((node) => {
+    const card: Record<string, any> = node.file ? {type: 'file', file: node.file} : {type: 'text', text: node.label};
+    return {
+      id: node.id,
+      ...card,
+      // Canvas positions are the top left corner
+      x: round(node.x * CANVAS_SCALE - CANVAS_NODE_WIDTH / 2),
+      y: round(node.y * CANVAS_SCALE - CANVAS_NODE_HEIGHT / 2),
+      width: CANVAS_NODE_WIDTH,
+      height: CANVAS_NODE_HEIGHT,
+      ...(node.color ? {color: node.color} : {}),
+    };
+  });
+  const edges = graph.edges.map((edge) => ({
+    id: edge.id,
+    fromNode: edge.source,
+    toNode: edge.target,
+    toEnd: 'arrow',
+    ...(edge.label ? {label: edge.label} : {}),
+    ...(edge.color ? {color: edge.color} : {}),
+  }));
+  return JSON.stringify({nodes, edges}, null, '\t');
+}
+
+// Converts the colours cytoscape renders, like rgb(255,0,0), to hex. Returns undefined for other values.
+export function toHex(color: string): string {
+  const match = color?.match(/^rgba?\((\d+),\s*(\d+),\s*(\d+)/);
+  if (!match) {
+    return /^#[0-9a-f]{6}$/i.test(color || '') ? color.toLowerCase() : undefined;
+  }
+  return '#' + match.slice(1, 4).map((c) => Number(c).toString(16).padStart(2, '0')).join('');
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,101 @@
+// Renders the graph to PNG, JPG or SVG images.
+import type {Core, NodeCollection} from 'cytoscape';
+import {CLASS_EXPORT_HIDDEN} from '../constants';
+
+export type ImageFormat = 'png' | 'jpg' | 'svg';
+
+export interface ImageExportOptions {
+  format: ImageFormat;
+  scale: number;
+  // A CSS colour, or the empty string for a transparent background. JPGs are never transparent.
+  background: string;
+  // Export the whole graph instead of only the part that is in the viewport
+  full: boolean;
+  selectionOnly: boolean;
+}
+
+const SVG_PADDING = 10;
+
+// Returns the bytes of PNG and JPG images, and the text of SVG images
+export async function renderImage(viz: Core, options: ImageExportOptions): Promise<ArrayBuffer | string> {
+  const nodes = options.selectionOnly ? viz.nodes(':selected') : viz.nodes(':visible');
+  if (options.format === 'svg') {
+    return renderSvg(viz, nodes, options);
+  }
+  // Cytoscape renders everything that is displayed, so hide what shouldn't be in the image while rendering
+  const hidden = viz.elements().difference(nodes.union(nodes.edgesWith(nodes)));
+  hidden.addClass(CLASS_EXPORT_HIDDEN);
+  try {
+    const exportOptions = {
+      output: 'blob-promise' as const,
+      bg: options.background || (options.format === 'jpg' ? 'white' : undefined),
+      full: options.full,
+      scale: options.scale,
+    };
+    const blob = options.format === 'jpg' ? await viz.jpg(exportOptions) : await viz.png(exportOptions);
+    return await blob.arrayBuffer();
+  } finally {
+    hidden.removeClass(CLASS_EXPORT_HIDDEN);
+  }
+}
+
+// Draws the nodes, and the edges between them, with the colours, sizes and labels they are rendered with.
+// Edges are drawn straight.
+export function renderSvg(viz: Core, nodes: NodeCollection, options: ImageExportOptions): string {
+  const box = options.full ? nodes.boundingBox({}) : viz.extent();
+  const x = box.x1 - SVG_PADDING;
+  const y = box.y1 - SVG_PADDING;
+  const width = box.w + 2 * SVG_PADDING;
+  const height = box.h + 2 * SVG_PADDING;
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width * options.scale)}" ` +
+      `height="${round(height * options.scale)}" viewBox="${round(x)} ${round(y)} ${round(width)} ${round(height)}">`,
+    '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" ' +
+      'orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="context-stroke"/></marker></defs>',
+  ];
+  if (options.background) {
+    lines.push(`<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" ` +
+      `fill="${escape(options.background)}"/>`);
+  }
+  nodes.edgesWith(nodes).filter(':visible').forEach((edge) => {
+    const source = edge.sourceEndpoint();
+    const target = edge.targetEndpoint();
+    const arrow = edge.style('target-arrow-shape') !== 'none' ? ' marker-end="url(#arrow)"' : '';
+    lines.push(`<line x1="${round(source.x)}" y1="${round(source.y)}" x2="${round(target.x)}" y2="${round(target.y)}" ` +
+      `stroke="${escape(edge.style('line-color'))}" stroke-width="${parseFloat(edge.style('width')) || 1}" ` +
+      `stroke-opacity="${edge.style('opacity')}"${arrow}/>`);
+  });
+  nodes.forEach((node) => {
+    const position = node.position();
+    const w = node.width();
+    const h = node.height();
+    const fill = `fill="${escape(node.style('background-color'))}" fill-opacity="${node.style('background-opacity')}"`;
+    const borderWidth = parseFloat(node.style('border-width')) || 0;
+    const border = borderWidth > 0 ?
+      ` stroke="${escape(node.style('border-color'))}" stroke-width="${borderWidth}"` : '';
+    if (node.style('shape') === 'ellipse') {
+      lines.push(`<ellipse cx="${round(position.x)}" cy="${round(position.y)}" rx="${round(w / 2)}" ` +
+        `ry="${round(h / 2)}" ${fill}${border}/>`);
+    } else {
+      const radius = node.style('shape').startsWith('round') ? ` rx="${round(Math.min(w, h) / 4)}"` : '';
+      lines.push(`<rect x="${round(position.x - w / 2)}" y="${round(position.y - h / 2)}" width="${round(w)}" ` +
+        `height="${round(h)}"${radius} ${fill}${border}/>`);
+    }
+    const label = node.style('label');
+    if (label) {
+      const fontSize = parseFloat(node.style('font-size')) || 10;
+      lines.push(`<text x="${round(position.x)}" y="${round(position.y + h / 2 + fontSize)}" text-anchor="middle" ` +
+        `font-family="sans-serif" font-size="${fontSize}" fill="${escape(node.style('color'))}">${escape(label)}</text>`);
+    }
+  });
+  lines.push('</svg>');
+  return lines.join('\n') + '\n';
+}
+
+function escape(s: string): string {
+  return String(s).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -13,6 +13,7 @@ import {
 } from '../constants';
 import type {Core} from 'cytoscape';
 import type {SvelteComponent} from 'svelte';
+import type {SavedQuery} from './saved-queries';
 import {
   getLayoutSetting,
 } from './layout-settings';
@@ -174,9 +175,13 @@ export class LocalMode extends Component implements IAGMode {
           },
           onDepthChange: this.changeDepth,
           filterValue: this.view.settings.filter,
+          savedQueries: () => this.view.savedQueries(),
+          savedQueryApply: (query: SavedQuery) => this.view.applySavedQuery(query),
+          queryVocabulary: () => this.view.queryVocabulary(),
           workspace: this.view.plugin.app.workspace,
         },
       });
+      this.view.on('savedQuery', (query: SavedQuery) => this.toolbar.$set({filterValue: query.filter}));
     }
 
     updateActiveFile(node: NodeCollection) {
@@ -1,158 +1,401 @@
-import type {NodeCollection} from 'cytoscape';
-import searchQuery, {ISearchParserDictionary} from 'search-query-parser';
-import cytoscape, {NodeSingular} from 'cytoscape';
+import type {EdgeCollection, NodeCollection, NodeSingular, SingularElementArgument} from 'cytoscape';
+import cytoscape from 'cytoscape';
+import {isStructural, KEYWORDS, parseQuery, unquote} from './query-parser';
+import type {ParsedQuery, QueryNode, TermNode} from './query-parser';
+import type {FullTextIndex} from '../full-text-index';
 
+// A cytoscape selector, or a predicate for what selectors can't express
+type Filter = string | ((element: SingularElementArgument) => boolean);
 
-const _containsSelector = function(attribute: string, filters: string|string[], op='*='): string[] {
-  if (typeof(filters) === 'string' || filters instanceof String) {
-    return [`[${attribute} ${op} '${filters}']`];
+const DAY = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// The numbers from start to end that a value of a query stands for. Dates without a time stand for the whole day,
+// so end is exclusive for them. For other values, start and end are the same.
+interface Interval {
+  start: number;
+  end: number;
+}
+
+// Reads numbers and ISO dates. Returns null for other values.
+export const toInterval = function(value: any): Interval {
+  if (typeof value === 'number') {
+    return {start: value, end: value};
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+  if (!isNaN(Number(value))) {
+    return {start: Number(value), end: Number(value)};
   }
-  return filters.map((s) => `[${attribute} ${op} '${s}']`);
+  if (ISO_DATE.test(value) && !isNaN(Date.parse(value))) {
+    const start = Date.parse(value);
+    return {start, end: value.length === 10 ? start + DAY : start};
+  }
+  return null;
 };
 
-const _tagSelector = function(tag: string|string[]): string[] {
-  if (typeof(tag) === 'string' || tag instanceof String) {
-    if (tag.length > 0 && tag[0] === '#') {
-      const t = tag.slice(1);
-      // @ts-ignore
-      return [`.tag-${tag.slice(1).replaceAll('/', '-')}`];
-    }
-    return [];
+// Turns relational values like >5, <=2026-01-01 and =running, and ranges like 1..10 and 2026-01-01..2026-02-01,
+// into predicates on the attribute. Returns null if the value isn't relational.
+export const relationalPredicate = function(attribute: string, value: string):
+    (element: SingularElementArgument) => boolean {
+  const range = value.match(/^(.+)\.\.(.+)$/);
+  if (range) {
+    const from = relationalPredicate(attribute, '>=' + range[1]);
+    const to = relationalPredicate(attribute, '<=' + range[2]);
+    return from && to ? (node) => from(node) && to(node) : null;
+  }
+  const match = value.match(/^(>=|<=|>|<|=)(.+)$/);
+  if (!match) {
+    return null;
   }
-  return tag.map((t) => {
-    if (t.length > 0 && t[0] === '#') {
-      // @ts-ignore
-      return `.tag-${t.slice(1).replaceAll('/', '-')}`;
+  const op = match[1];
+  const bound = toInterval(match[2]);
+  if (!bound) {
+    // Only equality makes sense for values that aren't numbers or dates
+    return op === '=' ? (node) => String(node.data(attribute)).toLowerCase() === match[2].toLowerCase() : null;
+  }
+  const exact = bound.start === bound.end;
+  return (node) => {
+    const x = toInterval(node.data(attribute))?.start;
+    if (x === undefined) {
+      return false;
     }
-    return '';
-  });
+    switch (op) {
+      case '>': return exact ? x > bound.end : x >= bound.end;
+      case '>=': return x >= bound.start;
+      case '<': return x < bound.start;
+      case '<=': return exact ? x <= bound.end : x < bound.end;
+      case '=': return exact ? x === bound.start : x >= bound.start && x < bound.end;
+    }
+  };
+};
+
+// Uses relational predicates for relational values, and substring selectors otherwise. Multiple values are or-ed.
+const _dataFilter = function(attribute: string, filters: string|string[]): Filter[] {
+  const values = typeof(filters) === 'string' || filters instanceof String ? [filters as string] : filters;
+  const predicates = values.map((value) => relationalPredicate(attribute, value));
+  if (predicates.every((p) => p === null)) {
+    return _containsSelector(attribute, filters);
+  }
+  return [(node) => values.some((value, i) =>
+    predicates[i] ? predicates[i](node) : String(node.data(attribute) ?? '').includes(value))];
+};
+
+
+const _escape = function(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'');
+};
+
+const _containsSelector = function(attribute: string, filters: string|string[], op='*='): string[] {
+  if (typeof(filters) === 'string' || filters instanceof String) {
+    return [`[${attribute} ${op} '${_escape(filters as string)}']`];
+  }
+  return filters.map((s) => `[${attribute} ${op} '${_escape(s)}']`);
+};
+
+// Tags and classes are matched with predicates, as they can contain characters that aren't allowed in selectors
+const _classFilter = function(classes: string[]): Filter[] {
+  return [(node) => classes.some((c) => node.hasClass(c))];
+};
+
+const _tagClasses = function(tags: string[]): string[] {
+  // @ts-ignore
+  return tags.map((t) => `tag-${(t.startsWith('#') ? t.slice(1) : t).replaceAll('/', '-')}`);
 };
 
-const _classSelector = function(clazz: string|string[]): string[] {
-  if (typeof(clazz) === 'string' || clazz instanceof String) {
-    return [`.${clazz}`];
+// Answers terms from an index instead of looking at every node
+export interface TermIndex {
+  withClass(clazz: string): NodeCollection;
+  // Nodes with the lower case name or id
+  named(name: string): NodeCollection;
+  // Answers content terms for the nodes whose content is indexed
+  contentIndex?: FullTextIndex;
+}
+
+interface EvaluationContext {
+  // The keys of the data of the nodes
+  keys: Set<string>;
+  index?: TermIndex;
+}
+
+// Whether the node has the name, file name or id
+const _isNamed = function(node: NodeSingular, name: string): boolean {
+  const id = node.id().toLowerCase();
+  return String(node.data('name')).toLowerCase() === name || id === name ||
+    id === `core:${name}` || id === `core:${name}.md`;
+};
+
+// The nodes with the name, file name or id
+const _nodesNamed = function(name: string, cy: cytoscape.Core, context: EvaluationContext): NodeCollection {
+  name = unquote(name).toLowerCase();
+  if (context.index) {
+    return context.index.named(name).union(context.index.named(`core:${name}`))
+        .union(context.index.named(`core:${name}.md`));
   }
-  return clazz.map(( c) => `.${c}`);
+  return cy.nodes().filter((node) => _isNamed(node, name));
 };
 
+// The nodes of the graph that satisfy a structural predicate
+const _structuralNodes = function(term: TermNode, cy: cytoscape.Core, context: EvaluationContext): NodeCollection {
+  const {key, value} = term;
+  switch (key) {
+    case 'linksto':
+      return _nodesNamed(value, cy, context).incomers().nodes();
+    case 'linkedfrom':
+      return _nodesNamed(value, cy, context).outgoers().nodes();
+    case 'neighbor': {
+      const nodes = term.query ? _evaluate(term.query, cy.nodes(), context) : filter(unquote(value), cy.nodes());
+      return nodes.openNeighborhood().nodes();
+    }
+    case 'within': {
+      const split = value.indexOf(':');
+      const hops = parseInt(value.slice(0, split));
+      let nodes = _nodesNamed(value.slice(split + 1), cy, context);
+      for (let i = 0; i < hops; i++) {
+        nodes = nodes.closedNeighborhood().nodes();
+      }
+      return split > 0 && !isNaN(hops) ? nodes : cy.collection();
+    }
+    case 'orphan':
+      return cy.nodes().filter((node) => (node.degree(false) === 0) === (unquote(value) !== 'false'));
+    case 'component': {
+      if (unquote(value) !== 'largest') {
+        return cy.collection();
+      }
+      return cy.elements().components()
+          .reduce((largest, c) => c.nodes().length > largest.length ? c.nodes() : largest, cy.collection());
+    }
+    case 'path': {
+      const match = value.match(/^("[^"]*"|[^"]*?)->(.+)$/);
+      const from = match ? _nodesNamed(match[1], cy, context) : cy.collection();
+      const to = match ? _nodesNamed(match[2], cy, context) : cy.collection();
+      if (from.length === 0 || to.length === 0) {
+        return cy.collection();
+      }
+      const result = cy.elements().aStar({root: from[0], goal: to[0], directed: false});
+      return result.found ? result.path.nodes() : cy.collection();
+    }
+  }
+  return cy.collection();
+};
 
-const literal = function(atomicQuery: ISearchParserDictionary, key: string): string[] {
+const literal = function(key: string, values: string|string[]): Filter[] {
+  const list = typeof(values) === 'string' || values instanceof String ? [values as string] : values;
   switch (key) {
-    case 'exclude': return [];
     case 'content':
     case 'ignore-case':
-    case 'text': return _containsSelector('content', atomicQuery[key], '@*=');
+    case 'text': return _containsSelector('content', values, '@*=');
     case 'match-case':
-      return _containsSelector('content', atomicQuery[key], '*=');
-    case 'file': return _containsSelector('name', atomicQuery[key]);
-    case 'name': return _containsSelector('name', atomicQuery[key], '@*=');
-    case 'tag': return _tagSelector(atomicQuery[key]);
-    case 'class': return _classSelector(atomicQuery[key]);
-    case 'raw': return [atomicQuery[key]];
-    default: return _containsSelector(key, atomicQuery[key]);
+      return _containsSelector('content', values, '*=');
+    case 'file': return _containsSelector('name', values);
+    case 'name': return _containsSelector('name', values, '@*=');
+    case 'tag': return _classFilter(_tagClasses(list));
+    case 'class': return _classFilter(list);
+    case 'raw': return list;
+    default: return _dataFilter(key, values);
   }
 };
 
+// Values separated by commas are or-ed
+const _values = function(value: string): string|string[] {
+  const values = value.match(/("[^"]*"|[^,])+/g)?.map(unquote) || [''];
+  return values.length === 1 ? values[0] : values;
+};
 
-const _parseAtomicQuery = function(query: string, nodes: NodeCollection): NodeCollection {
-  const keys:Set<string> = new Set();
-  nodes.forEach((node:NodeSingular) => {
-    Object.keys(node.data()).forEach((key) => keys.add(key));
-  });
-  const keywords = ['file', 'tag', 'raw', 'match-case', 'ignore-case', 'class'];
-  keywords.push(...keys);
-  const options = {
-    keywords: keywords,
-    tokenize: true,
-    offsets: false,
-  };
-  const parsedQuery = searchQuery.parse(query, options) as ISearchParserDictionary;
-  let selector = 'node';
-  for (const key of Object.keys(parsedQuery)) {
-    selector += literal(parsedQuery, key).join();
-  }
-  let filteredNodes = nodes.filter(selector);
-  if (parsedQuery.exclude) {
-    for (const key of Object.keys(parsedQuery.exclude)) {
-      for (const query of literal(parsedQuery.exclude, key)) {
-        const selector = 'node' + query;
-        filteredNodes = filteredNodes.not(selector);
-      }
-    }
+// Keys that match the content of notes regardless of case
+const CONTENT_KEYS = ['content', 'text', 'ignore-case'];
+
+// Nodes whose content is indexed match if it contains the words of one of the values. Other nodes, like cards and
+// the notes of graphs that were opened before the index was built, match on the content in their data.
+const _contentMatches = function(values: string|string[], nodes: NodeCollection, index: FullTextIndex): NodeCollection {
+  const list = typeof values === 'string' ? [values] : values;
+  const matches = list.map((value) => index.matches(value));
+  const lower = list.map((value) => value.toLowerCase());
+  return nodes.filter((node) => index.has(node.id()) ? matches.some((m) => m.has(node.id())) :
+    lower.some((value) => String(node.data('content') ?? '').toLowerCase().includes(value)));
+};
+
+const _evaluateTerm = function(term: TermNode, nodes: NodeCollection, context: EvaluationContext): NodeCollection {
+  if (isStructural(term)) {
+    // @ts-ignore
+    return nodes.intersection(_structuralNodes(term, nodes.cy(), context));
+  }
+  // Words with keys that aren't known are searched for in the content, like words without a key
+  const known = term.key !== '' && (KEYWORDS.includes(term.key) || context.keys.has(term.key));
+  if (known && context.index && (term.key === 'tag' || term.key === 'class')) {
+    const values = _values(term.value);
+    const list = typeof values === 'string' ? [values] : values;
+    const classes = term.key === 'tag' ? _tagClasses(list) : list;
+    // @ts-ignore
+    return nodes.intersection(classes.reduce((acc, c) => acc.union(context.index.withClass(c)), nodes.cy().collection()));
+  }
+  const text = !known || CONTENT_KEYS.includes(term.key);
+  if (text && context.index?.contentIndex) {
+    return _contentMatches(known ? _values(term.value) : unquote(term.key ? `${term.key}:${term.value}` : term.value),
+        nodes, context.index.contentIndex);
+  }
+  const filters = known ? literal(term.key, _values(term.value)) :
+    literal('text', unquote(term.key ? `${term.key}:${term.value}` : term.value));
+  // The selectors of multiple values are or-ed
+  const selectors = filters.filter((f) => typeof f === 'string') as string[];
+  let filteredNodes = selectors.length > 0 ? nodes.filter(selectors.map((f) => 'node' + f).join(',')) : nodes;
+  for (const predicate of filters.filter((f) => typeof f !== 'string') as ((node: NodeSingular) => boolean)[]) {
+    filteredNodes = filteredNodes.filter((node) => predicate(node as NodeSingular));
   }
   return filteredNodes;
 };
 
-const _parseConjuncts = function(query: string, toFilter: NodeCollection): NodeCollection {
-  const conjuncts: string[] = [];
-  const negated: boolean[] = [];
-  let nesting = 0;
-  let startBrace = -1;
-  let lastEndBrace = -1;
-  for (let i = 0; i < query.length; i++) {
-    if (query[i] === '(') {
-      if (nesting === 0) {
-        startBrace = i;
-        const betweenBraces = query.slice(lastEndBrace+1, i > 0 ? (query[i-1] === '-' ? i-1 : i):i);
-        if (betweenBraces.trim().length > 0) {
-          negated.push(false);
-          conjuncts.push(betweenBraces);
-        }
-      }
-      nesting += 1;
-    } else if (query[i] === ')') {
-      nesting -= 1;
-      if (nesting === 0) {
-        lastEndBrace = i;
-        negated.push(startBrace > 0 ? query[startBrace-1] === '-' : false);
-        conjuncts.push(query.slice(startBrace+1, lastEndBrace));
-      }
-    } else if (i === query.length-1) {
-      const betweenBraces = query.slice(lastEndBrace+1);
-      if (betweenBraces.trim().length > 0) {
-        negated.push(false);
-        conjuncts.push(betweenBraces);
-      }
+// Types are matched on the type of the link and on the classes of typed links, which keep the spelling of the note
+const _typeFilter = function(types: string[]): Filter[] {
+  const lower = types.map((t) => t.toLowerCase());
+  return [(edge) => lower.some((t) => String(edge.data('type') ?? '').toLowerCase() === t) ||
+    types.some((t) => edge.hasClass(`type-${t.replace(/\s/g, '-')}`))];
+};
+
+const _evaluateEdgeTerm = function(term: TermNode, edges: EdgeCollection): EdgeCollection {
+  const values = _values(term.value);
+  const list = typeof values === 'string' ? [values] : values;
+  let filters: Filter[];
+  switch (term.key) {
+    case 'type':
+      filters = _typeFilter(list);
+      break;
+    case 'from':
+    case 'to': {
+      const names = list.map((name) => name.toLowerCase());
+      const end = term.key === 'from' ? 'source' : 'target';
+      filters = [(edge: SingularElementArgument) =>
+        names.some((name) => _isNamed((edge as cytoscape.EdgeSingular)[end](), name))];
+      break;
     }
-  }
-  let coll = toFilter;
-  for (let i=0; i < conjuncts.length; i++) {
-    const recFiltered = _parseDisjuncts(conjuncts[i], coll, query);
-    if (negated[i]) {
-      coll = coll.difference(recFiltered);
-    } else {
-      coll = coll.intersection(recFiltered);
+    case '': {
+      // Words without a key match the type or the context of links
+      const word = unquote(term.value).toLowerCase();
+      filters = [(edge) => String(edge.data('type') ?? '').toLowerCase().includes(word) ||
+        String(edge.data('context') ?? '').toLowerCase().includes(word)];
+      break;
     }
+    default:
+      filters = literal(term.key, values);
   }
-  return coll;
-};
-
-const _parseDisjuncts = function(query: string, toFilter: NodeCollection, lastDisjunct: string): NodeCollection {
-  if (lastDisjunct === query) {
-    return _parseAtomicQuery(query, toFilter);
-  }
-  const disjuncts: string[] = [];
-  let lastEnd = 0;
-  let nesting = 0;
-  for (let i = 0; i < query.length; i++) {
-    if (query[i] === '(') {
-      nesting += 1;
-    } else if (query[i] === ')') {
-      nesting -= 1;
-    } else if (nesting === 0 && query[i] === 'O' &&
-        i+1 < query.length && query[i+1] === 'R') {
-      disjuncts.push(query.slice(lastEnd, i));
-      lastEnd = i + 2;
-    }
+  const selectors = filters.filter((f) => typeof f === 'string') as string[];
+  let filteredEdges = selectors.length > 0 ? edges.filter(selectors.map((f) => 'edge' + f).join(',')) : edges;
+  for (const predicate of filters.filter((f) => typeof f !== 'string') as ((edge: SingularElementArgument) => boolean)[]) {
+    filteredEdges = filteredEdges.filter((edge) => predicate(edge));
+  }
+  return filteredEdges;
+};
+
+const _evaluateEdges = function(query: QueryNode, edges: EdgeCollection): EdgeCollection {
+  switch (query.type) {
+    case 'term':
+      return _evaluateEdgeTerm(query, edges);
+    case 'not':
+      return edges.difference(_evaluateEdges(query.child, edges));
+    case 'and':
+      return query.children.reduce((acc, child) => _evaluateEdges(child, acc), edges);
+    case 'or':
+      return query.children.reduce((acc, child) =>
+        acc.union(_evaluateEdges(child, edges.difference(acc))), edges.filter(() => false));
+  }
+};
+
+const _evaluate = function(query: QueryNode, nodes: NodeCollection, context: EvaluationContext): NodeCollection {
+  switch (query.type) {
+    case 'term':
+      return _evaluateTerm(query, nodes, context);
+    case 'not':
+      return nodes.difference(_evaluate(query.child, nodes, context));
+    case 'and':
+      return query.children.reduce((acc, child) => _evaluate(child, acc, context), nodes);
+    case 'or':
+      // Performance optimization: Use nodes - acc to not consider elements that are already matched
+      return query.children.reduce((acc, child) =>
+        acc.union(_evaluate(child, nodes.difference(acc), context)), cytoscape().collection());
+  }
+};
+
+export interface CompiledQuery extends ParsedQuery {
+  query: string;
+  // Whether the query depends on more than the data and classes of each node, like the edges of the graph
+  structural: boolean;
+  // Whether the query matches content, which can change without changing the node
+  content: boolean;
+}
+
+const _matchesContent = function(query: QueryNode): boolean {
+  switch (query.type) {
+    case 'term':
+      // Words without a known key are searched for in the content as well
+      return CONTENT_KEYS.includes(query.key) ||
+        !KEYWORDS.includes(query.key) && !isStructural(query);
+    case 'not':
+      return _matchesContent(query.child);
+    default:
+      return query.children.some(_matchesContent);
+  }
+};
+
+const _isStructural = function(query: QueryNode): boolean {
+  switch (query.type) {
+    case 'term':
+      // Raw selectors can select on anything, like the state of the view
+      return isStructural(query) || query.key === 'raw';
+    case 'not':
+      return _isStructural(query.child);
+    default:
+      return query.children.some(_isStructural);
+  }
+};
+
+// Compiled queries are kept, as the same queries are evaluated whenever the graph changes
+const COMPILED_CACHE_SIZE = 200;
+const compiledQueries: Map<string, CompiledQuery> = new Map();
+
+export const compileQuery = function(query: string): CompiledQuery {
+  query = query || '';
+  let compiled = compiledQueries.get(query);
+  if (compiled) {
+    // Keep recently used queries longest
+    compiledQueries.delete(query);
+  } else {
+    const parsed = parseQuery(query);
+    compiled = {...parsed, query, structural: _isStructural(parsed.ast), content: _matchesContent(parsed.ast)};
   }
-  if (lastEnd < query.length) {
-    disjuncts.push(query.slice(lastEnd));
+  compiledQueries.set(query, compiled);
+  if (compiledQueries.size > COMPILED_CACHE_SIZE) {
+    compiledQueries.delete(compiledQueries.keys().next().value);
   }
-  return disjuncts.reduce((acc, s) =>
-  // Performance optimization: Use toFilter - acc to not consider elements that are already matched
-    acc.union(_parseConjuncts(s, toFilter.difference(acc))), cytoscape().collection());
+  return compiled;
+};
+
+// The nodes that match a query without errors. Keys are the keys of the data of the nodes.
+export const evaluate = function(query: CompiledQuery, nodes: NodeCollection, keys: Set<string>,
+    index?: TermIndex): NodeCollection {
+  return _evaluate(query.ast, nodes, {keys, index});
 };
 
+// The nodes that match the query. Queries with errors match no nodes: use compileQuery to find the errors.
 export const filter = function(query: string, nodes: NodeCollection): NodeCollection {
-  return _parseDisjuncts(query, nodes, '');
+  const compiled = compileQuery(query);
+  if (compiled.errors.length > 0) {
+    return nodes.filter(() => false);
+  }
+  const keys: Set<string> = new Set();
+  nodes.forEach((node:NodeSingular) => {
+    Object.keys(node.data()).forEach((key) => keys.add(key));
+  });
+  return evaluate(compiled, nodes, keys);
+};
+
+// The edges that match the query. Edge queries have the syntax of node queries, with other keys:
+// type:<link type>, from:<note>, to:<note>, class:<class>, raw:<selector> and the keys of the data of edges.
+// Words without a key match the type and context of links. Queries with errors match no edges.
+export const filterEdges = function(query: string, edges: EdgeCollection): EdgeCollection {
+  const compiled = compileQuery(query);
+  if (compiled.errors.length > 0) {
+    return edges.filter(() => false);
+  }
+  return _evaluateEdges(compiled.ast, edges);
 };
@@ -0,0 +1,170 @@
+// Keeps the results of queries on a graph up to date as the graph changes. Nodes are only evaluated again when their
+// data, classes or indexed content changed, unless the query depends on the edges of the graph and those changed.
+import type {Core, EventObject, NodeCollection, NodeSingular} from 'cytoscape';
+import {compileQuery, evaluate} from './query-builder';
+import type {TermIndex} from './query-builder';
+import type {FullTextIndex} from '../full-text-index';
+
+// How many results are kept. Queries typed in the toolbar would otherwise be kept forever.
+const RESULT_CACHE_SIZE = 50;
+
+interface CachedResult {
+  // The clock when the result was last brought up to date
+  evaluatedAt: number;
+  // The version of the content index at that time
+  contentVersion: number;
+  nodes: NodeCollection;
+}
+
+export class QueryIndex implements TermIndex {
+  cy: Core;
+  contentIndex: FullTextIndex;
+  // Nodes by their classes, which include their tags, and by their lower case names and ids
+  classes: Map<string, NodeCollection> = new Map();
+  names: Map<string, NodeCollection> = new Map();
+  // What each node is indexed under, to remove it when it changes
+  indexed: Map<string, {classes: string[], names: string[]}> = new Map();
+  // The keys of the data of the nodes. Keys that aren't used anymore are kept.
+  keys: Set<string> = new Set();
+  // Counts changes to the graph
+  clock = 0;
+  // The clock of the last change of nodes that changed after the oldest result was evaluated
+  changed: Map<string, number> = new Map();
+  // The clock of the last change to the elements in the graph
+  structureChanged = 0;
+  removed = 0;
+  results: Map<string, CachedResult> = new Map();
+  // Whether class changes make nodes evaluated again. Disabled while applying the results of queries.
+  tracking = true;
+
+  constructor(cy: Core, contentIndex?: FullTextIndex) {
+    this.cy = cy;
+    this.contentIndex = contentIndex;
+    cy.nodes().forEach((node) => this.index(node));
+    cy.on('add', 'node', (e: EventObject) => {
+      this.index(e.target);
+      this.change(e.target.id());
+      this.structureChanged = this.clock;
+    });
+    cy.on('data', 'node', (e: EventObject) => {
+      this.index(e.target);
+      this.change(e.target.id());
+    });
+    cy.on('class', 'node', (e: EventObject) => {
+      this.index(e.target);
+      if (this.tracking) {
+        this.change(e.target.id());
+      }
+    });
+    cy.on('remove', 'node', (e: EventObject) => {
+      this.unindex(e.target);
+      this.change(e.target.id());
+      this.structureChanged = this.removed = this.clock;
+    });
+    cy.on('add remove', 'edge', () => {
+      this.structureChanged = ++this.clock;
+    });
+  }
+
+  change(id: string) {
+    this.changed.set(id, ++this.clock);
+  }
+
+  // Runs fn without making the nodes whose classes it changes evaluated again
+  untracked(fn: () => void) {
+    this.tracking = false;
+    try {
+      fn();
+    } finally {
+      this.tracking = true;
+    }
+  }
+
+  private static add(map: Map<string, NodeCollection>, key: string, node: NodeSingular) {
+    if (!map.has(key)) {
+      map.set(key, node.cy().collection());
+    }
+    map.get(key).merge(node);
+  }
+
+  private unindex(node: NodeSingular) {
+    const indexed = this.indexed.get(node.id());
+    if (!indexed) {
+      return;
+    }
+    indexed.classes.forEach((c) => this.classes.get(c)?.unmerge(node));
+    indexed.names.forEach((n) => this.names.get(n)?.unmerge(node));
+    this.indexed.delete(node.id());
+  }
+
+  private index(node: NodeSingular) {
+    this.unindex(node);
+    const indexed = {
+      classes: node.classes() as unknown as string[],
+      names: [String(node.data('name')).toLowerCase(), node.id().toLowerCase()],
+    };
+    indexed.classes.forEach((c) => QueryIndex.add(this.classes, c, node));
+    indexed.names.forEach((n) => QueryIndex.add(this.names, n, node));
+    this.indexed.set(node.id(), indexed);
+    Object.keys(node.data()).forEach((key) => this.keys.add(key));
+  }
+
+  withClass(clazz: string): NodeCollection {
+    return this.classes.get(clazz) || this.cy.collection();
+  }
+
+  named(name: string): NodeCollection {
+    return this.names.get(name) || this.cy.collection();
+  }
+
+  // The nodes that match the query. Queries with errors match no nodes.
+  match(query: string): NodeCollection {
+    const compiled = compileQuery(query);
+    if (compiled.errors.length > 0) {
+      return this.cy.collection();
+    }
+    let result = this.results.get(compiled.query);
+    if (result && !(compiled.structural && this.structureChanged > result.evaluatedAt)) {
+      this.results.delete(compiled.query);
+      const contentChanged = compiled.content && this.contentIndex?.version > result.contentVersion;
+      if (this.clock > result.evaluatedAt || contentChanged) {
+        const changed = this.cy.collection();
+        for (const [id, at] of this.changed) {
+          if (at > result.evaluatedAt) {
+            changed.merge(this.cy.$id(id));
+          }
+        }
+        if (contentChanged) {
+          this.contentIndex.changedSince(result.contentVersion).forEach((id) => changed.merge(this.cy.$id(id)));
+        }
+        let nodes = result.nodes;
+        if (this.removed > result.evaluatedAt) {
+          nodes = nodes.filter((node) => node.inside());
+        }
+        result.nodes = nodes.difference(changed).union(evaluate(compiled, changed, this.keys, this));
+      }
+    } else {
+      this.results.delete(compiled.query);
+      result = {evaluatedAt: 0, contentVersion: 0, nodes: evaluate(compiled, this.cy.nodes(), this.keys, this)};
+    }
+    result.evaluatedAt = this.clock;
+    result.contentVersion = this.contentIndex?.version || 0;
+    // Keep recently used results longest
+    this.results.set(compiled.query, result);
+    if (this.results.size > RESULT_CACHE_SIZE) {
+      this.results.delete(this.results.keys().next().value);
+    }
+    this.forgetChanges();
+    return result.nodes;
+  }
+
+  // Changes that all results have seen aren't needed anymore
+  private forgetChanges() {
+    const oldest = Math.min(...[...this.results.values()].map((result) => result.evaluatedAt));
+    for (const [id, at] of this.changed) {
+      if (at <= oldest) {
+        this.changed.delete(id);
+      }
+    }
+  }
+}
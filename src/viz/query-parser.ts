@@ -0,0 +1,361 @@
+// Parses filter queries into a syntax tree. Errors are reported with their position in the query, so that they
+// can be shown where the query is typed.
+//
+//   or      := and ('OR' and)*
+//   and     := unary*
+//   unary   := '-' unary | primary
+//   primary := '(' or ')' | term
+//   term    := key ':' value | word | '"' phrase '"'
+
+// Keys that are handled by the query builder instead of matched against node data
+export const KEYWORDS = ['file', 'tag', 'raw', 'match-case', 'ignore-case', 'class', 'content', 'text', 'name'];
+// Predicates on the structure of the graph. The value of neighbor is a query in parentheses.
+export const STRUCTURAL_KEYS = ['linksto', 'linkedfrom', 'neighbor', 'within', 'orphan', 'component', 'path'];
+
+// Whether the term is a structural predicate. path: is also the data key of the path of a note, it is only a path
+// between two nodes if its value has an arrow.
+export function isStructural(term: {key: string, value: string}): boolean {
+  return STRUCTURAL_KEYS.includes(term.key) && (term.key !== 'path' || term.value.includes('->'));
+}
+
+// Offsets in the query. end is exclusive.
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export interface QueryError extends Span {
+  message: string;
+}
+
+export interface TermNode extends Span {
+  type: 'term';
+  // The empty string for words without a key
+  key: string;
+  // As typed, including quotes
+  value: string;
+  // The query in the parentheses of neighbor:(...)
+  query?: QueryNode;
+}
+
+export interface NotNode extends Span {
+  type: 'not';
+  child: QueryNode;
+}
+
+export interface AndNode extends Span {
+  type: 'and';
+  children: QueryNode[];
+}
+
+export interface OrNode extends Span {
+  type: 'or';
+  children: QueryNode[];
+}
+
+export type QueryNode = TermNode | NotNode | AndNode | OrNode;
+
+export interface ParsedQuery {
+  ast: QueryNode;
+  errors: QueryError[];
+}
+
+type TokenType = '(' | ')' | '-' | 'OR' | 'word';
+
+interface Token extends Span {
+  type: TokenType;
+  text: string;
+}
+
+const KEY = /^([\w-]+):/;
+
+// Index after the closing quote of the quote at start, or -1 if it isn't closed
+const _afterQuote = function(query: string, start: number): number {
+  const close = query.indexOf('"', start + 1);
+  return close < 0 ? -1 : close + 1;
+};
+
+// Index after the brace that closes the one at start, or -1 if it isn't closed
+const _afterBrace = function(query: string, start: number): number {
+  let nesting = 0;
+  for (let i = start; i < query.length; i++) {
+    if (query[i] === '"') {
+      const after = _afterQuote(query, i);
+      if (after < 0) {
+        return -1;
+      }
+      i = after - 1;
+    } else if (query[i] === '(') {
+      nesting += 1;
+    } else if (query[i] === ')') {
+      nesting -= 1;
+      if (nesting === 0) {
+        return i + 1;
+      }
+    }
+  }
+  return -1;
+};
+
+const _tokenize = function(query: string, errors: QueryError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const c = query[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '(' || c === ')') {
+      tokens.push({type: c, text: c, start: i, end: i + 1});
+      i++;
+    } else if (c === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({type: '-', text: c, start: i, end: i + 1});
+      i++;
+    } else {
+      const start = i;
+      const key = query.slice(i).match(KEY);
+      if (key && STRUCTURAL_KEYS.includes(key[1]) && query[i + key[0].length] === '(') {
+        // The query in the parentheses belongs to the value
+        const after = _afterBrace(query, i + key[0].length);
+        if (after < 0) {
+          errors.push({message: 'Missing closing parenthesis', start: i + key[0].length, end: query.length});
+          i = query.length;
+        } else {
+          i = after;
+        }
+      }
+      while (i < query.length && !/[\s()]/.test(query[i])) {
+        if (query[i] === '"') {
+          const after = _afterQuote(query, i);
+          if (after < 0) {
+            errors.push({message: 'Missing closing quote', start: i, end: query.length});
+            i = query.length;
+            break;
+          }
+          i = after;
+        } else {
+          i++;
+        }
+      }
+      const text = query.slice(start, i);
+      tokens.push({type: text === 'OR' ? 'OR' : 'word', text, start, end: i});
+    }
+  }
+  return tokens;
+};
+
+class Parser {
+  query: string;
+  tokens: Token[];
+  errors: QueryError[];
+  i = 0;
+
+  constructor(query: string) {
+    this.query = query;
+    this.errors = [];
+    this.tokens = _tokenize(query, this.errors);
+  }
+
+  peek(): TokenType {
+    return this.i < this.tokens.length ? this.tokens[this.i].type : null;
+  }
+
+  error(message: string, span: Span) {
+    this.errors.push({message, start: span.start, end: span.end});
+  }
+
+  parse(): QueryNode {
+    const children = [this.or()];
+    // Parse what follows braces that aren't opened, so that errors in it are reported as well
+    while (this.peek() === ')') {
+      this.error('Unmatched closing parenthesis', this.tokens[this.i++]);
+      children.push(this.or());
+    }
+    return this.group('and', children, {start: 0, end: this.query.length});
+  }
+
+  group(type: 'and' | 'or', children: QueryNode[], span: Span): QueryNode {
+    if (children.length === 1) {
+      return children[0];
+    }
+    return {type, children, start: span.start, end: span.end};
+  }
+
+  or(): QueryNode {
+    const start = this.i < this.tokens.length ? this.tokens[this.i].start : this.query.length;
+    const children = [this.and()];
+    while (this.peek() === 'OR') {
+      const or = this.tokens[this.i++];
+      const previous = children[children.length - 1];
+      if (previous.type === 'and' && previous.children.length === 0) {
+        this.error('Expected a query before OR', or);
+      }
+      const next = this.peek();
+      if (next === null || next === ')' || next === 'OR') {
+        this.error('Expected a query after OR', or);
+      } else {
+        children.push(this.and());
+      }
+    }
+    return this.group('or', children, {start, end: children[children.length - 1].end});
+  }
+
+  and(): QueryNode {
+    const start = this.i < this.tokens.length ? this.tokens[this.i].start : this.query.length;
+    const children: QueryNode[] = [];
+    while (this.peek() !== null && this.peek() !== ')' && this.peek() !== 'OR') {
+      children.push(this.unary());
+    }
+    return this.group('and', children, {start, end: children.length > 0 ? children[children.length - 1].end : start});
+  }
+
+  unary(): QueryNode {
+    if (this.peek() !== '-') {
+      return this.primary();
+    }
+    const not = this.tokens[this.i++];
+    const next = this.peek();
+    if (next === null || next === ')' || next === 'OR') {
+      this.error('Expected a query after -', not);
+      return {type: 'and', children: [], start: not.start, end: not.end};
+    }
+    const child = this.unary();
+    return {type: 'not', child, start: not.start, end: child.end};
+  }
+
+  primary(): QueryNode {
+    const token = this.tokens[this.i++];
+    if (token.type === 'word') {
+      return this.term(token);
+    }
+    // An opening brace
+    const inner = this.or();
+    if (this.peek() === ')') {
+      const close = this.tokens[this.i++];
+      if (inner.type === 'and' && inner.children.length === 0) {
+        this.error('Empty parentheses', {start: token.start, end: close.end});
+      }
+      return {...inner, start: token.start, end: close.end};
+    }
+    this.error('Missing closing parenthesis', token);
+    return inner;
+  }
+
+  term(token: Token): TermNode {
+    const key = token.text.match(KEY);
+    const term: TermNode = {
+      type: 'term',
+      key: key ? key[1] : '',
+      value: key ? token.text.slice(key[0].length) : token.text,
+      start: token.start,
+      end: token.end,
+    };
+    if (key && term.value === '') {
+      this.error(`Missing value after ${key[0]}`, token);
+    } else if (key) {
+      this.validateStructural(term);
+    }
+    return term;
+  }
+
+  validateStructural(term: TermNode) {
+    const value = term.value;
+    switch (term.key) {
+      case 'neighbor':
+        if (value.startsWith('(')) {
+          // Missing closing braces are reported by the tokenizer
+          const nested = new Parser(value.slice(1, value.endsWith(')') ? -1 : undefined));
+          // Positions in the nested query start after the brace
+          const start = term.end - value.length + 1;
+          term.query = _shift(nested.parse(), start);
+          this.errors.push(...nested.errors.map((e) => ({...e, start: e.start + start, end: e.end + start})));
+        }
+        break;
+      case 'within':
+        if (!/^\d+:./.test(value)) {
+          this.error('Expected within:<hops>:<name>', term);
+        }
+        break;
+      case 'orphan':
+        if (!['true', 'false'].includes(unquote(value))) {
+          this.error('Expected orphan:true or orphan:false', term);
+        }
+        break;
+      case 'component':
+        if (unquote(value) !== 'largest') {
+          this.error('Expected component:largest', term);
+        }
+        break;
+    }
+  }
+}
+
+const _shift = function(node: QueryNode, offset: number): QueryNode {
+  const shifted = {...node, start: node.start + offset, end: node.end + offset};
+  switch (shifted.type) {
+    case 'term':
+      return shifted.query ? {...shifted, query: _shift(shifted.query, offset)} : shifted;
+    case 'not':
+      return {...shifted, child: _shift(shifted.child, offset)};
+    default:
+      return {...shifted, children: shifted.children.map((child) => _shift(child, offset))};
+  }
+};
+
+export function unquote(value: string): string {
+  value = value.trim();
+  return value.length > 1 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const parser = new Parser(query || '');
+  const ast = parser.parse();
+  return {ast, errors: parser.errors.sort((a, b) => a.start - b.start)};
+}
+
+// What the toolbar suggests when typing a query
+export interface QueryVocabulary {
+  keys: string[];
+  // Including the #
+  tags: string[];
+  classes: string[];
+}
+
+// The text between start and end is replaced by one of the items
+export interface Completion extends Span {
+  items: string[];
+}
+
+const MAX_COMPLETIONS = 10;
+
+// Suggests keys for the word at the cursor, and tags and classes for the values of tag: and class:
+export function completeQuery(query: string, cursor: number, vocabulary: QueryVocabulary): Completion {
+  let start = cursor;
+  while (start > 0 && !/[\s()]/.test(query[start - 1])) {
+    start--;
+  }
+  if (query[start] === '-') {
+    start++;
+  }
+  const word = query.slice(start, cursor);
+  const colon = word.indexOf(':');
+  let valueStart = start;
+  let candidates: string[];
+  let prefix = word;
+  if (colon < 0) {
+    candidates = vocabulary.keys.map((key) => key + ':');
+  } else {
+    valueStart = start + colon + 1;
+    prefix = word.slice(colon + 1);
+    const key = word.slice(0, colon);
+    candidates = key === 'tag' ? vocabulary.tags : key === 'class' ? vocabulary.classes : [];
+  }
+  if (word === '') {
+    return {start: valueStart, end: cursor, items: []};
+  }
+  const lower = prefix.toLowerCase();
+  const items = [...new Set(candidates)]
+      .filter((item) => item.toLowerCase().startsWith(lower) && item !== prefix)
+      .sort()
+      .slice(0, MAX_COMPLETIONS);
+  return {start: valueStart, end: cursor, items};
+}
@@ -0,0 +1,66 @@
+// Saved queries are named views: a filter, a layout and style groups that can be applied to any Juggl graph.
+import type {IJugglSettings, StyleGroup} from 'juggl-api';
+import type {EdgeStyleGroup, JugglGraphSettings, JugglLayouts} from '../settings';
+
+export interface SavedQuery {
+  name: string;
+  filter: string;
+  // The empty string keeps the layout of the graph the query is applied to
+  layout: JugglLayouts | '';
+  // Replace the style groups of the graph the query is applied to. Empty lists keep the style groups of the graph.
+  styleGroups: StyleGroup[];
+  edgeStyleGroups: EdgeStyleGroup[];
+}
+
+export const emptySavedQuery: SavedQuery = {
+  name: '',
+  filter: '',
+  layout: '',
+  styleGroups: [],
+  edgeStyleGroups: [],
+};
+
+// Cytoscape layouts that the layouts of Juggl are run with
+const JUGGL_LAYOUTS: Record<string, JugglLayouts> = {
+  'concentric': 'circle',
+  'dagre': 'hierarchy',
+  'd3-force': 'force-directed',
+  'cola': 'force-directed',
+};
+
+export function findSavedQuery(queries: SavedQuery[], name: string): SavedQuery {
+  const key = String(name).trim().toLowerCase();
+  return queries.find((query) => query.name.trim().toLowerCase() === key);
+}
+
+// The layout setting of a graph is either the name of a layout, or the options of the layout it is running
+export function layoutName(layout: IJugglSettings['layout']): JugglLayouts {
+  const name = typeof layout === 'string' || layout instanceof String ? String(layout) : layout.name;
+  return JUGGL_LAYOUTS[name] || name as JugglLayouts;
+}
+
+// The settings of a graph after applying the query to it. The style groups are copied, so that editing them in
+// the graph doesn't change the saved query.
+export function withSavedQuery(settings: JugglGraphSettings, query: SavedQuery): JugglGraphSettings {
+  return {
+    ...settings,
+    filter: query.filter,
+    layout: query.layout || settings.layout,
+    styleGroups: query.styleGroups.length > 0 ?
+      query.styleGroups.map((group) => ({...group, icon: {...group.icon}})) : settings.styleGroups,
+    edgeStyleGroups: query.edgeStyleGroups.length > 0 ?
+      query.edgeStyleGroups.map((group) => ({...group})) : settings.edgeStyleGroups,
+  };
+}
+
+// Saves the current view of a graph
+export function savedQueryFromSettings(name: string, settings: JugglGraphSettings): SavedQuery {
+  return {
+    name,
+    filter: settings.filter || '',
+    layout: layoutName(settings.layout),
+    styleGroups: settings.styleGroups.map((group) => ({...group, icon: {...group.icon}})),
+    // Graphs saved before edge style groups have none
+    edgeStyleGroups: (settings.edgeStyleGroups || []).map((group) => ({...group})),
+  };
+}
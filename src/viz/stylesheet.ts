@@ -4,6 +4,7 @@ import type {Juggl} from './visualization';
 import {MAX_FONT_SIZE, MAX_NODE_SIZE, MAX_TEXT_WIDTH, MIN_FONT_SIZE, MIN_NODE_SIZE, MIN_TEXT_WIDTH} from '../constants';
 import type {Vault} from 'obsidian';
 import type {IJugglPlugin, StyleGroup} from 'juggl-api';
+import type {EdgeStyleGroup} from '../settings';
 
 export const STYLESHEET_PATH = function(vault: Vault) {
   return `${vault.configDir}/plugins/juggl/graph.css`;
@@ -26,6 +27,20 @@ export const SHAPES = ['ellipse',
   'round-tag',
 
 ];
+export const LINE_STYLES = ['solid', 'dotted', 'dashed'];
+export const ARROW_SHAPES = ['vee',
+  'triangle',
+  'triangle-tee',
+  'circle-triangle',
+  'triangle-cross',
+  'triangle-backcurve',
+  'tee',
+  'square',
+  'circle',
+  'diamond',
+  'chevron',
+  'none',
+];
 
 export const DEFAULT_USER_SHEET = `
 /* For a full overview of styling options, see https://js.cytoscape.org/#style */
@@ -108,9 +123,12 @@ export class GraphStyleSheet {
       let globalGroups = '';
       if ('settings' in this.plugin) {
         // @ts-ignore
-        globalGroups = this.styleGroupsToSheet(this.plugin.settings.globalStyleGroups, 'global');
+        globalGroups = this.styleGroupsToSheet(this.plugin.settings.globalStyleGroups, 'global') +
+          // @ts-ignore
+          this.edgeStyleGroupsToSheet(this.plugin.settings.globalEdgeStyleGroups, 'global');
       }
-      const localGroups = this.styleGroupsToSheet(viz.settings.styleGroups, 'local');
+      const localGroups = this.styleGroupsToSheet(viz.settings.styleGroups, 'local') +
+        this.edgeStyleGroupsToSheet(viz.edgeStyleGroups(), 'local');
       return this.defaultSheet + globalGroups + customSheet + localGroups + this.yamlModifySheet;
     }
 
@@ -179,6 +197,34 @@ node.${groupPrefix}-${index} {
       return sheet;
     }
 
+    edgeStyleGroupsToSheet(groups: EdgeStyleGroup[], groupPrefix: string): string {
+      let sheet = '';
+      for (const [index, val] of groups.entries()) {
+        if (val.show) {
+          // Scales the default widths of edges, which grow with the number of merged links
+          sheet += `
+edge.${groupPrefix}-edge-${index} {
+  line-color: ${val.color};
+  target-arrow-color: ${val.color};
+  line-style: ${val.lineStyle};
+  target-arrow-shape: ${val.arrow};
+  width: ${0.7*val.width};
+}
+edge.${groupPrefix}-edge-${index}[edgeCount] {
+  width: mapData(edgeCount, 1, 50, ${0.55*val.width}, ${3*val.width});
+}
+`;
+        } else {
+          sheet += `
+edge.${groupPrefix}-edge-${index} {
+  display: none;
+}
+`;
+        }
+      }
+      return sheet;
+    }
+
     getDefaultStylesheet(): string {
       const style = getComputedStyle(activeDocument.body);
       let font = style.getPropertyValue('--text');
@@ -271,6 +317,53 @@ node:selected[degree] {
   background-color: #2d1b1b;
 }
 
+/* Waiting for a free agent slot */
+.terminal-queued {
+  border-color: #d69e2e;
+  border-style: dashed;
+  background-opacity: 0.5;
+}
+
+/* Session boxes group the terminals of a source note */
+.terminal-session {
+  shape: round-rectangle;
+  background-color: #4fd1c7;
+  background-opacity: 0.08;
+  border-width: 1px;
+  border-style: dashed;
+  border-color: #4fd1c7;
+  text-valign: top;
+  text-halign: center;
+}
+
+.terminal-session-running {
+  border-color: #38a169;
+}
+
+.terminal-session-done {
+  border-color: #a0aec0;
+}
+
+.terminal-session-error {
+  border-color: #e53e3e;
+  border-style: solid;
+}
+
+.terminal-session-collapsed {
+  width: 30;
+  height: 20;
+  border-style: solid;
+}
+
+.terminal-session-hidden {
+  display: none;
+}
+
+/* Terminals running an agent take the colour of its profile */
+.terminal-node[agentColor] {
+  background-color: data(agentColor);
+}
+
 /* Terminal profile specific styling */
 .profile-bash {
   border-style: solid;
@@ -295,6 +388,11 @@ node:selected[degree] {
   width: 2px;
 }
 
+/* Notes created by an agent point back to its terminal */
+.terminal-connection.type-produced-by {
+  line-style: dotted;
+}
+
 edge {
   line-color: ${lineColor};
   loop-sweep: -50deg;
@@ -363,8 +461,29 @@ node.pinned {
     border-color: rgba(0, 255, 255, 0.8);
 }
 
+node.changed {
+    border-style: double;
+    border-width: 4;
+    border-color: rgba(255, 165, 0, 0.9);
+}
+
+/* Text cards imported from canvases */
+node.card {
+    shape: round-rectangle;
+}
+
+node.card[color] {
+    background-color: data(color);
+}
+
+edge.card-edge[color] {
+    line-color: data(color);
+    target-arrow-color: data(color);
+}
+
 node.hard-filtered,
-node.filtered {
+node.filtered,
+.export-hidden {
     display: none;
 }
 `;
@@ -17,12 +17,12 @@ import cytoscape, {
   NodeDefinition,
   NodeSingular, Singular,
 } from 'cytoscape';
+import type {EdgeCollection} from 'cytoscape';
 import type {
   IAGMode,
   IJugglStores,
   IMergedToGraph,
   IJuggl,
-  IJugglSettings,
   IJugglPlugin,
   LayoutSettings,
   StyleGroup,
@@ -42,7 +42,14 @@ import {
 } from '../constants';
 import {LocalMode} from './local-mode';
 import {parseLayoutSettings} from './layout-settings';
-import {filter} from './query-builder';
+import {compileQuery, filterEdges} from './query-builder';
+import {QueryIndex} from './query-index';
+import {ObsidianStore} from '../obsidian-store';
+import {KEYWORDS, STRUCTURAL_KEYS} from './query-parser';
+import type {QueryVocabulary} from './query-parser';
+import {withSavedQuery} from './saved-queries';
+import type {SavedQuery} from './saved-queries';
+import type {EdgeStyleGroup, JugglGraphSettings} from '../settings';
 import {findOptimalPosition, setInitialNodePositions, mergeToGraph as mergeToGraphUtil} from './new-node-positioning';
 
 export const MD_VIEW_TYPE = 'markdown';
@@ -52,7 +59,7 @@ let VIEW_COUNTER = 0;
 export class Juggl extends Component implements IJuggl {
     element: Element;
     workspace: Workspace;
-    settings: IJugglSettings;
+    settings: JugglGraphSettings;
     initialNodes: string[];
     vault: Vault;
     plugin: IJugglPlugin;
@@ -67,8 +74,9 @@ export class Juggl extends Component implements IJuggl {
     vizReady = false;
     destroyHover: () => void = null;
     debouncedRestartLayout: () => void;
+    queryIndex: QueryIndex;
 
-    constructor(element: Element, plugin: IJugglPlugin, dataStores: IJugglStores, settings: IJugglSettings, initialNodes?: string[]) {
+    constructor(element: Element, plugin: IJugglPlugin, dataStores: IJugglStores, settings: JugglGraphSettings, initialNodes?: string[]) {
       super();
       this.element = element;
       this.settings = settings;
@@ -136,6 +144,9 @@ export class Juggl extends Component implements IJuggl {
           });
         }
         this.viz.dblclick();
+        const coreStore = this.datastores.coreStore;
+        this.queryIndex = new QueryIndex(this.viz,
+            coreStore instanceof ObsidianStore ? coreStore.getContentIndex() : undefined);
 
         if (this.settings.navigator) {
           const navDiv = activeDocument.createElement('div');
@@ -663,20 +674,48 @@ export class Juggl extends Component implements IJuggl {
       localLayout.run();
     }
 
+    // Gives the class to the nodes, and takes it from the other nodes. Only the nodes whose class changes are touched.
+    setClass(clazz: string, nodes: NodeCollection) {
+      this.queryIndex.untracked(() => {
+        const current = this.queryIndex.withClass(clazz);
+        current.difference(nodes).removeClass(clazz);
+        nodes.difference(current).addClass(clazz);
+      });
+    }
+
+    // Edges aren't indexed, so the edges that have the class are looked up
+    setEdgeClass(clazz: string, edges: EdgeCollection) {
+      const current = this.viz.edges(`.${clazz}`);
+      current.difference(edges).removeClass(clazz);
+      edges.difference(current).addClass(clazz);
+    }
+
+    // Graphs saved before edge style groups have none
+    edgeStyleGroups(): EdgeStyleGroup[] {
+      if (!this.settings.edgeStyleGroups) {
+        this.settings.edgeStyleGroups = [];
+      }
+      return this.settings.edgeStyleGroups;
+    }
+
     assignStyleGroups() {
-      const viz = this.viz;
-      const _assignGroups = function(groups: StyleGroup[], prefix: string) {
+      const _assignGroups = (groups: StyleGroup[], prefix: string) => {
         for (const [index, group] of groups.entries()) {
-          const clazz = `${prefix}-${index}`;
-          viz.nodes().removeClass(clazz);
-          const filteredNodes = filter(group.filter, viz.nodes());
-          filteredNodes.addClass(clazz);
+          this.setClass(`${prefix}-${index}`, this.queryIndex.match(group.filter));
+        }
+      };
+      const _assignEdgeGroups = (groups: EdgeStyleGroup[], prefix: string) => {
+        for (const [index, group] of groups.entries()) {
+          this.setEdgeClass(`${prefix}-edge-${index}`, filterEdges(group.filter, this.viz.edges()));
         }
       };
       _assignGroups(this.settings.styleGroups, 'local');
+      _assignEdgeGroups(this.edgeStyleGroups(), 'local');
       if ('settings' in this.plugin) {
         // @ts-ignore
         _assignGroups(this.plugin.settings.globalStyleGroups, 'global');
+        // @ts-ignore
+        _assignEdgeGroups(this.plugin.settings.globalEdgeStyleGroups, 'global');
       }
     }
 
@@ -685,8 +724,13 @@ export class Juggl extends Component implements IJuggl {
         this.viz.startBatch();
       }
       this.viz.nodes().forEach((node) => {
-        node.data('degree', node.degree(false));
-        node.data('nameLength', node.data('name').length);
+        // Setting data makes queries evaluate the node again, so only set it when it changes
+        if (node.data('degree') !== node.degree(false)) {
+          node.data('degree', node.degree(false));
+        }
+        if (node.data('nameLength') !== node.data('name').length) {
+          node.data('nameLength', node.data('name').length);
+        }
         node.addClass([...new Set(node.incomers('edge')
             .map((edge) => 'has-incoming-' + (edge.data('type') ? edge.data('type') : 'inline')))]);
         node.addClass([...new Set(node.outgoers('edge')
@@ -737,12 +781,55 @@ export class Juggl extends Component implements IJuggl {
     searchFilter(query: string) {
       // The query here is in approximately the format of Obsidian search queries
       // This is much less efficient than using selectors, so only use this if you need to parse user input.
-      this.viz.nodes().removeClass(CLASS_FILTERED);
-      const filteredNodes = filter(query, this.viz.nodes());
-      this.viz.nodes().difference(filteredNodes).addClass(CLASS_FILTERED);
+      // Malformed queries filter nothing. Their errors are shown in the toolbar.
+      const filtered = compileQuery(query).errors.length === 0 ?
+        this.viz.nodes().difference(this.queryIndex.match(query)) : this.viz.collection();
+      this.setClass(CLASS_FILTERED, filtered);
       this.settings.filter = query;
     }
 
+    // The keys, tags and classes that can be completed when typing a query
+    queryVocabulary(): QueryVocabulary {
+      const keys = new Set([...KEYWORDS, ...STRUCTURAL_KEYS]);
+      const classes: Set<string> = new Set();
+      this.viz.nodes().forEach((node) => {
+        Object.keys(node.data()).forEach((key) => keys.add(key));
+        node.classes().forEach((clazz: string) => classes.add(clazz));
+      });
+      // @ts-ignore
+      const tags = Object.keys(this.plugin.app.metadataCache.getTags?.() || {});
+      return {
+        keys: [...keys],
+        tags,
+        // Leave out the classes of the state of the view and those of style groups
+        classes: [...classes].filter((clazz) => !CLASSES.includes(clazz) && !/^(local|global)-\d+$/.test(clazz)),
+      };
+    }
+
+    savedQueries(): SavedQuery[] {
+      if ('settings' in this.plugin) {
+        // @ts-ignore
+        return this.plugin.settings.savedQueries || [];
+      }
+      return [];
+    }
+
+    // Applies the filter, layout and style groups of a saved query to the graph
+    async applySavedQuery(query: SavedQuery) {
+      const settings = withSavedQuery(this.settings, query);
+      this.settings.styleGroups = settings.styleGroups;
+      this.settings.edgeStyleGroups = settings.edgeStyleGroups;
+      this.searchFilter(settings.filter);
+      await this.updateStylesheet();
+      this.assignStyleGroups();
+      if (query.layout) {
+        this.setLayout(parseLayoutSettings(settings));
+      } else {
+        this.restartLayout();
+      }
+      this.trigger('savedQuery', query);
+    }
+
     public getPinned() {
       return this.viz.nodes(`.${CLASS_PINNED}`);
     }
@@ -773,6 +860,7 @@ export class Juggl extends Component implements IJuggl {
     trigger(name: 'elementsChange'): void;
     trigger(name: 'vizReady', viz: Core): void;
     trigger(name: 'layout', layout: {layout: LayoutSettings, collection: Collection}): void;
+    trigger(name: 'savedQuery', query: SavedQuery): void;
     trigger(name: string, ...data: any[]): void {
       this.events.trigger(name, ...data);
     }
@@ -0,0 +1,113 @@
+// Reads Obsidian canvas files (https://jsoncanvas.org/spec/1.0/) into nodes and edges for a Juggl graph.
+// File cards become nodes of the core store. Text and link cards become nodes of the card store.
+import {CANVAS_SCALE} from '../graph-export';
+
+export const CARD_STORE_ID = 'card';
+
+export interface CanvasCard {
+  // Unique over all canvases: the path of the canvas and the id of the card in it
+  id: string;
+  text: string;
+  color?: string;
+}
+
+export interface CanvasEdge {
+  id: string;
+  // Ids of the nodes in the graph, including their store
+  source: string;
+  target: string;
+  type: string;
+  color?: string;
+}
+
+export interface CanvasImport {
+  // Path of the canvas. The ids of its cards and edges start with it.
+  path: string;
+  nodes: {id: string, position: {x: number, y: number}}[];
+  cards: CanvasCard[];
+  edges: CanvasEdge[];
+  // Groups and cards of files that don't exist anymore
+  skipped: number;
+}
+
+// The colours of the presets of the canvas, in the default theme
+const CANVAS_COLORS: Record<string, string> = {
+  '1': '#fb464c',
+  '2': '#e9973f',
+  '3': '#e0de71',
+  '4': '#44cf6e',
+  '5': '#53dfdd',
+  '6': '#a882ff',
+};
+
+// fileId returns the id of the node of the file at the path, or null if it doesn't exist.
+export function parseCanvas(content: string, canvasPath: string, fileId: (path: string) => string): CanvasImport {
+  const canvas = JSON.parse(content || '{}');
+  const result: CanvasImport = {path: canvasPath, nodes: [], cards: [], edges: [], skipped: 0};
+  // Maps ids of canvas nodes to ids of graph nodes
+  const ids: Record<string, string> = {};
+  for (const node of canvas.nodes || []) {
+    let id: string;
+    if (node.type === 'file') {
+      id = fileId(node.file);
+    } else if (node.type === 'text' || node.type === 'link') {
+      const card: CanvasCard = {
+        id: `${canvasPath}#${node.id}`,
+        text: node.type === 'text' ? node.text || '' : node.url,
+        color: canvasColor(node.color),
+      };
+      result.cards.push(card);
+      id = `${CARD_STORE_ID}:${card.id}`;
+    }
+    if (!id) {
+      result.skipped++;
+      continue;
+    }
+    ids[node.id] = id;
+    result.nodes.push({
+      id,
+      // Canvas positions are the top left corner of the card
+      position: {
+        x: (node.x + (node.width || 0) / 2) / CANVAS_SCALE,
+        y: (node.y + (node.height || 0) / 2) / CANVAS_SCALE,
+      },
+    });
+  }
+  for (const edge of canvas.edges || []) {
+    if (!(edge.fromNode in ids) || !(edge.toNode in ids)) {
+      continue;
+    }
+    result.edges.push({
+      id: `${canvasPath}#${edge.id}`,
+      source: ids[edge.fromNode],
+      target: ids[edge.toNode],
+      type: edge.label || 'canvas',
+      color: canvasColor(edge.color),
+    });
+  }
+  return result;
+}
+
+// Replaces the cards and edges that were imported from the same canvas before by the newly imported ones
+export function mergeCanvas(cards: Record<string, CanvasCard>, edges: Record<string, CanvasEdge>,
+    imported: CanvasImport): {cards: Record<string, CanvasCard>, edges: Record<string, CanvasEdge>} {
+  const fromCanvas = (id: string) => id.startsWith(`${imported.path}#`);
+  const merged = {
+    cards: Object.fromEntries(Object.entries(cards).filter(([id]) => !fromCanvas(id))),
+    edges: Object.fromEntries(Object.entries(edges).filter(([id]) => !fromCanvas(id))),
+  };
+  for (const card of imported.cards) {
+    merged.cards[card.id] = card;
+  }
+  for (const edge of imported.edges) {
+    merged.edges[edge.id] = edge;
+  }
+  return merged;
+}
+
+function canvasColor(color: string): string {
+  if (!color) {
+    return undefined;
+  }
+  return CANVAS_COLORS[color] || color;
+}
@@ -0,0 +1,64 @@
+import {Component} from 'obsidian';
+import type {TFile} from 'obsidian';
+import type {ICoreDataStore, IJuggl} from 'juggl-api';
+import type {VizId} from 'juggl-api';
+import type {EdgeDefinition, NodeCollection, NodeDefinition} from 'cytoscape';
+import {DataStoreEvents} from '../../events';
+import type {WorkspaceManifest} from './workspace-manifest';
+
+// Serves the nodes and edges of a saved workspace, as they were when it was saved. Graphs that use this store
+// instead of the vault show a snapshot without changes to the vault leaking in.
+export class SnapshotStore extends Component implements ICoreDataStore {
+  events: DataStoreEvents;
+  nodes: Record<string, NodeDefinition> = {};
+  edges: EdgeDefinition[];
+
+  constructor(manifest: WorkspaceManifest) {
+    super();
+    this.events = new DataStoreEvents();
+    for (const node of manifest.graph.elements.nodes || []) {
+      this.nodes[node.data.id] = node;
+    }
+    this.edges = manifest.graph.elements.edges || [];
+  }
+
+  getEvents(view: IJuggl): DataStoreEvents {
+    return this.events;
+  }
+
+  storeId(): string {
+    return 'core';
+  }
+
+  async get(nodeId: VizId, view: IJuggl): Promise<NodeDefinition | null> {
+    return this.nodes[nodeId.toId()] || null;
+  }
+
+  getFile(nodeId: VizId): TFile | null {
+    return null;
+  }
+
+  async getNeighbourhood(nodeIds: VizId[], view: IJuggl): Promise<NodeDefinition[]> {
+    const ids = new Set(nodeIds.map((id) => id.toId()));
+    const neighbours = new Set(ids);
+    for (const edge of this.edges) {
+      if (ids.has(edge.data.source)) {
+        neighbours.add(edge.data.target);
+      } else if (ids.has(edge.data.target)) {
+        neighbours.add(edge.data.source);
+      }
+    }
+    return [...neighbours].filter((id) => id in this.nodes).map((id) => this.nodes[id]);
+  }
+
+  async connectNodes(allNodes: NodeCollection, newNodes: NodeCollection, view: IJuggl): Promise<EdgeDefinition[]> {
+    const newIds = new Set(newNodes.map((node) => node.id()));
+    return this.edges
+        .filter((edge) => newIds.has(edge.data.source) || newIds.has(edge.data.target))
+        .filter((edge) => allNodes.$id(edge.data.source).length > 0 && allNodes.$id(edge.data.target).length > 0);
+  }
+
+  async refreshNode(id: VizId, view: IJuggl): Promise<void> {
+    // The snapshot never changes
+  }
+}
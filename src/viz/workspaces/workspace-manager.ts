@@ -1,13 +1,64 @@
-import {Component, DataAdapter} from 'obsidian';
+import {CachedMetadata, Component, DataAdapter, debounce, normalizePath, Notice, TFile} from 'obsidian';
+import type {NodeCollection, NodeDefinition, NodeSingular} from 'cytoscape';
 import type JugglPlugin from '../../main';
 import type {Juggl} from '../visualization';
-import {DATA_FOLDER} from '../../constants';
+import {
+  CLASS_CHANGED,
+  CLASS_EXPANDED,
+  CLASSES,
+  DATA_FOLDER,
+  DEBOUNCE_WORKSPACE_SNAPSHOT,
+  WORKSPACE_CHANGES_HIGHLIGHT_TIME,
+  WORKSPACE_MAX_PATH_HISTORY,
+  WORKSPACE_MAX_RECENT,
+  WORKSPACE_MAX_SNAPSHOTS,
+} from '../../constants';
 import {VizId} from 'juggl-api';
+import type {IJugglSettings} from 'juggl-api';
+import {
+  createManifest,
+  diffManifests,
+  hasSavedGraph,
+  isEmptyDiff,
+  LEGACY_GRAPH_FILE,
+  LEGACY_SETTINGS_FILE,
+  legacyManifest,
+  MANIFEST_FILE,
+  parseManifest,
+  WorkspaceFormatError,
+} from './workspace-manifest';
+import type {WorkspaceManifest} from './workspace-manifest';
+import {parseWorkspaceNote, serializeWorkspaceNote, WORKSPACE_NAME_KEY} from './workspace-note';
+import {CARD_STORE_ID, parseCanvas} from './canvas-import';
+
+export interface SnapshotInfo {
+  id: string;
+  savedAt: Date;
+  nodes: number;
+  edges: number;
+}
+
+// What changed in the vault since a workspace was saved. Contains ids of nodes.
+export interface ReconcileSummary {
+  deleted: string[];
+  renamed: {from: string, to: string}[];
+  changedLinks: string[];
+}
+
+const SNAPSHOT_FOLDER = 'snapshots';
+// Where files were renamed from and to, to find back nodes of saved workspaces whose file was renamed since
+const PATH_HISTORY_FILE = 'path-history.json';
 
 export class WorkspaceManager extends Component {
     plugin: JugglPlugin;
     adapter: DataAdapter;
     graphs: string[] = [];
+    // The workspace that is open in each view, to snapshot it when it changes
+    openWorkspaces: WeakMap<Juggl, {name: string}> = new WeakMap();
+    // Paths of workspace notes written in this session, as the metadata cache takes a while to pick them up
+    notePaths: Record<string, string> = {};
+    // Maps old paths of renamed files to their new path, oldest rename first
+    pathHistory: Record<string, string> = {};
     constructor(plugin: JugglPlugin) {
       super();
       this.plugin = plugin;
@@ -20,62 +71,608 @@ export class WorkspaceManager extends Component {
         await this.adapter.mkdir(DATA_FOLDER(this.plugin.vault));
         const path = require('path');
         this.graphs = (await this.adapter.list(DATA_FOLDER(this.plugin.vault))).folders.map((s) => path.basename(s));
+        if (await this.adapter.exists(DATA_FOLDER(this.plugin.vault) + PATH_HISTORY_FILE)) {
+          this.pathHistory = JSON.parse(await this.adapter.read(DATA_FOLDER(this.plugin.vault) + PATH_HISTORY_FILE));
+        }
       } catch (e) {
         console.log(e);
       }
+      const savePathHistory = debounce(() => this.savePathHistory(), 1000, true);
+      this.registerEvent(this.plugin.vault.on('rename', (file, oldPath) => {
+        delete this.pathHistory[oldPath];
+        this.pathHistory[oldPath] = file.path;
+        const paths = Object.keys(this.pathHistory);
+        for (const old of paths.slice(0, Math.max(0, paths.length - WORKSPACE_MAX_PATH_HISTORY))) {
+          delete this.pathHistory[old];
+        }
+        savePathHistory();
+      }));
+      // Workspaces saved as notes are found through the metadata cache
+      const metadataCache = this.plugin.app.metadataCache;
+      this.plugin.app.workspace.onLayoutReady(() => {
+        for (const file of this.plugin.vault.getMarkdownFiles()) {
+          this.addNoteWorkspace(metadataCache.getFileCache(file));
+        }
+      });
+      this.registerEvent(metadataCache.on('changed', (file, data, cache) => this.addNoteWorkspace(cache)));
+      this.registerEvent(metadataCache.on('deleted', async (file, prevCache) => {
+        const name = prevCache?.frontmatter?.[WORKSPACE_NAME_KEY];
+        if (name && !this.workspaceNote(name) && !(await this.hasSavedGraph(name))) {
+          this.graphs.remove(name);
+        }
+      }));
+    }
+
+    private async savePathHistory() {
+      try {
+        await this.adapter.write(DATA_FOLDER(this.plugin.vault) + PATH_HISTORY_FILE, JSON.stringify(this.pathHistory));
+      } catch (e) {
+        console.error('[Juggl Debug] Failed to save path history', e);
+      }
+    }
+
+    private addNoteWorkspace(cache: CachedMetadata) {
+      const name = cache?.frontmatter?.[WORKSPACE_NAME_KEY];
+      if (typeof name === 'string' && !this.graphs.contains(name)) {
+        this.graphs.push(name);
+      }
+    }
+
+    // The note the workspace is saved in, or null if it is saved in the plugin folder.
+    workspaceNote(name: string): TFile {
+      const written = this.plugin.vault.getAbstractFileByPath(this.notePaths[name] || '');
+      if (written instanceof TFile) {
+        return written;
+      }
+      const metadataCache = this.plugin.app.metadataCache;
+      return this.plugin.vault.getMarkdownFiles()
+          .find((file) => metadataCache.getFileCache(file)?.frontmatter?.[WORKSPACE_NAME_KEY] === name) || null;
+    }
+
+    workspaceFolder(name: string): string {
+      return DATA_FOLDER(this.plugin.vault) + name;
+    }
+
+    // Whether the workspace is saved in its folder instead of in a note
+    hasSavedGraph(name: string): Promise<boolean> {
+      return hasSavedGraph(this.workspaceFolder(name), (path) => this.adapter.exists(path));
     }
 
     async saveGraph(name: string, viz: Juggl) {
       try {
-        const folder = DATA_FOLDER(viz.vault) + name;
+        await this.writeManifest(name, createManifest(name, viz.viz.json(), viz.settings));
+        this.trackChanges(name, viz);
+      } catch (e) {
+        console.error('[Juggl Debug] Failed to save workspace', name, e);
+        new Notice(`Could not save workspace ${name}: ${e.message}`);
+      }
+    }
+
+    // Writes the workspace, and keeps a snapshot of it in its history.
+    // Workspaces that already exist are saved where they are, new ones depend on the workspacesAsNotes setting.
+    async writeManifest(name: string, manifest: WorkspaceManifest) {
+      const folder = this.workspaceFolder(name);
+      const note = this.workspaceNote(name);
+      if (note || (this.plugin.settings.workspacesAsNotes && !(await this.hasSavedGraph(name)))) {
+        await this.writeNote(note, manifest);
+      } else {
         await this.adapter.mkdir(folder);
-        const graphJson = viz.viz.json();
-        await this.adapter.write(folder + '/graph.json', JSON.stringify(graphJson));
-        const settings = viz.settings;
-        await this.adapter.write(folder + '/settings.json', JSON.stringify(settings));
-        if (!this.graphs.contains(name)) {
-          this.graphs.push(name);
+        await this.adapter.write(folder + '/' + MANIFEST_FILE, JSON.stringify(manifest));
+        // The manifest replaces the files of the unversioned format
+        for (const legacy of [LEGACY_GRAPH_FILE, LEGACY_SETTINGS_FILE]) {
+          if (await this.adapter.exists(folder + '/' + legacy)) {
+            await this.adapter.remove(folder + '/' + legacy);
+          }
         }
-      } catch (e) {
-        console.log(e);
       }
+      // Snapshots are local history, so they stay in the plugin folder for workspaces saved as notes too
+      await this.writeSnapshot(name, manifest);
+      if (!this.graphs.contains(name)) {
+        this.graphs.push(name);
+      }
+    }
+
+    // Writes the workspace to its note. Creates the note in the workspace notes folder if it doesn't exist yet.
+    private async writeNote(note: TFile, manifest: WorkspaceManifest) {
+      const vault = this.plugin.vault;
+      const content = serializeWorkspaceNote(manifest);
+      if (note) {
+        await vault.modify(note, content);
+        return;
+      }
+      const folder = normalizePath(this.plugin.settings.workspaceNotesFolder || '/');
+      if (folder !== '/' && !vault.getAbstractFileByPath(folder)) {
+        await vault.createFolder(folder);
+      }
+      const path = normalizePath(`${folder}/${manifest.name}.md`);
+      if (vault.getAbstractFileByPath(path)) {
+        throw new Error(`${path} already exists`);
+      }
+      await vault.create(path, content);
+      this.notePaths[manifest.name] = path;
+    }
+
+    // Reads the manifest of a saved workspace, migrating it from older formats if needed.
+    // Throws a WorkspaceFormatError if it can't be read.
+    async readManifest(name: string): Promise<WorkspaceManifest> {
+      const note = this.workspaceNote(name);
+      if (note) {
+        let raw: any;
+        try {
+          raw = parseWorkspaceNote(await this.plugin.vault.read(note));
+        } catch (e) {
+          throw new WorkspaceFormatError(`Could not parse ${note.path}`, [e.message]);
+        }
+        if (!raw) {
+          throw new WorkspaceFormatError(`${note.path} has no juggl-workspace block`);
+        }
+        return parseManifest(raw);
+      }
+      const folder = this.workspaceFolder(name);
+      const parse = async (file: string) => {
+        try {
+          return JSON.parse(await this.adapter.read(folder + '/' + file));
+        } catch (e) {
+          throw new WorkspaceFormatError(`Could not parse ${file}`, [e.message]);
+        }
+      };
+      if (await this.adapter.exists(folder + '/' + MANIFEST_FILE)) {
+        return parseManifest(await parse(MANIFEST_FILE));
+      }
+      if (await this.adapter.exists(folder + '/' + LEGACY_GRAPH_FILE)) {
+        return parseManifest(legacyManifest(name, await parse(LEGACY_GRAPH_FILE), await parse(LEGACY_SETTINGS_FILE)));
+      }
+      throw new WorkspaceFormatError(`Workspace ${name} does not exist`);
     }
 
     async loadGraph(name: string, viz: Juggl) {
+      let manifest: WorkspaceManifest;
       try {
-        const folder = DATA_FOLDER(viz.vault) + name;
-        const graph = JSON.parse(await this.adapter.read(folder + '/graph.json'));
-        const settings = JSON.parse(await this.adapter.read( folder + '/settings.json'));
-        viz.viz.json(graph);
-        viz.settings = settings;
-
-        // After loading in the graph, we have to validate with the datastores that the data is still up-to-date:
-        // This could create race-condition conflicts possibly when a node updates in the meantime.
-        const nodes = viz.viz.nodes();
-        for (let i=1; i < nodes.length; i++ ) {
-          if (!nodes[i]) {
+        manifest = await this.readManifest(name);
+      } catch (e) {
+        console.error('[Juggl Debug] Failed to read workspace', name, e);
+        new Notice(`Could not load workspace ${name}: ${e.message}`, 10000);
+        return;
+      }
+      try {
+        this.applyManifest(manifest, viz);
+        // The vault may have changed since the workspace was saved
+        this.reportChanges(name, await this.reconcile(viz), viz);
+        this.trackChanges(name, viz);
+        this.addRecent(name);
+      } catch (e) {
+        console.error('[Juggl Debug] Failed to load workspace', name, e);
+        new Notice(`Could not load workspace ${name}: ${e.message}`, 10000);
+      }
+    };
+
+    applyManifest(manifest: WorkspaceManifest, viz: Juggl) {
+      viz.viz.json(manifest.graph);
+      // Highlights of a previous load may have been saved along with the graph
+      viz.viz.nodes().removeClass(CLASS_CHANGED);
+      viz.settings = manifest.settings as IJugglSettings;
+    }
+
+    // Brings the nodes and edges of a loaded workspace up to date with the data stores, in one batch per store.
+    // Nodes of deleted files are removed, and nodes of renamed files are replaced by a node for the new file.
+    async reconcile(viz: Juggl): Promise<ReconcileSummary> {
+      const summary: ReconcileSummary = {deleted: [], renamed: [], changedLinks: []};
+      const linksBefore = this.linkKeys(viz);
+      const byStore: Record<string, VizId[]> = {};
+      viz.viz.nodes().forEach((node) => {
+        const id = VizId.fromNode(node);
+        (byStore[id.storeId] = byStore[id.storeId] || []).push(id);
+      });
+      viz.viz.startBatch();
+      try {
+        for (const store of viz.datastores.dataStores) {
+          const ids = byStore[store.storeId()] || [];
+          if (ids.length === 0) {
             continue;
           }
-          const vId = VizId.fromNode(nodes[i]);
-
-          for (const store of viz.datastores.dataStores) {
-            if (store.storeId() === vId.storeId) {
-              await store.refreshNode(vId, viz);
-              break;
+          if (store === viz.datastores.coreStore) {
+            await this.reconcileCore(ids, viz, summary);
+          } else {
+            // Other stores keep their state in memory, refreshing their nodes is cheap
+            for (const id of ids) {
+              await store.refreshNode(id, viz);
             }
           }
         }
+      } finally {
+        viz.viz.endBatch();
+      }
+
+      // Compare links by their new ids, so that renames aren't counted as changed links
+      const renamedTo: Record<string, string> = {};
+      for (const {from, to} of summary.renamed) {
+        renamedTo[from] = to;
+      }
+      const before = new Set([...linksBefore].map((link) => {
+        const [source, target] = link.split('\n');
+        return `${renamedTo[source] || source}\n${renamedTo[target] || target}`;
+      }));
+      const after = this.linkKeys(viz);
+      const changed = new Set<string>();
+      for (const link of [...before].filter((l) => !after.has(l)).concat([...after].filter((l) => !before.has(l)))) {
+        const source = link.split('\n')[0];
+        if (viz.viz.$id(source).length > 0) {
+          changed.add(source);
+        }
+      }
+      summary.changedLinks = [...changed];
+      if (summary.deleted.length + summary.renamed.length + summary.changedLinks.length > 0) {
+        viz.onGraphChanged(true, true);
+      }
+      return summary;
+    }
+
+    // Source and target of the edges between nodes, except those of terminals
+    private linkKeys(viz: Juggl): Set<string> {
+      return new Set(viz.viz.edges()
+          .not('.terminal-connection')
+          .edges()
+          .map((edge) => `${edge.source().id()}\n${edge.target().id()}`));
+    }
+
+    private async reconcileCore(ids: VizId[], viz: Juggl, summary: ReconcileSummary) {
+      const store = viz.datastores.coreStore;
+      const definitions: NodeDefinition[] = [];
+      // Nodes that replace the node of a renamed file keep its position and classes
+      const replaced: {node: NodeDefinition, position: {x: number, y: number}, classes: string[]}[] = [];
+      for (const id of ids) {
+        const node = viz.viz.$id(id.toId()) as NodeSingular;
+        if (node.hasClass('dangling')) {
+          // Links to notes that don't exist yet, these never had a file
+          continue;
+        }
+        if (store.getFile(id)) {
+          const definition = await store.get(id, viz);
+          if (definition) {
+            definitions.push(definition);
+          }
+          continue;
+        }
+        const file = this.renamedFile(node.data('path'), id.id);
+        const newId = file ? VizId.fromFile(file) : null;
+        const renamed = newId ? await store.get(newId, viz) : null;
+        if (renamed) {
+          summary.renamed.push({from: id.toId(), to: newId.toId()});
+          replaced.push({
+            node: renamed,
+            position: {...node.position()},
+            classes: CLASSES.filter((clazz) => node.hasClass(clazz)),
+          });
+          definitions.push(renamed);
+        } else {
+          summary.deleted.push(id.toId());
+        }
+        node.remove();
+      }
+      viz.mergeToGraph(definitions, false, false);
+      for (const {node, position, classes} of replaced) {
+        const element = viz.viz.$id(node.data.id);
+        element.position(position);
+        element.addClass(classes.join(' '));
+      }
+      let nodes: NodeCollection = viz.viz.collection();
+      for (const id of ids.concat(replaced.map((r) => VizId.fromId(r.node.data.id)))) {
+        nodes = nodes.union(viz.viz.$id(id.toId()));
+      }
+      const edges = viz.mergeToGraph(await viz.buildEdges(nodes), false, false);
+      // Links that were removed from the files
+      nodes.connectedEdges()
+          .difference(edges.merged)
+          .filter((edge) => !edge.hasClass('terminal-connection'))
+          .remove();
+      // Expanded nodes also show the notes that were newly linked
+      const expanded = nodes.filter(`.${CLASS_EXPANDED}`);
+      if (expanded.length > 0) {
+        await viz.expand(expanded, false, false);
+      }
+    }
+
+    // Follows the path history to the file a file was renamed to. If the node has no path, its file name is used to
+    // find the rename.
+    private renamedFile(path: string, fileName: string): TFile {
+      if (!path) {
+        const path_ = require('path');
+        path = Object.keys(this.pathHistory).reverse().find((old) => path_.basename(old) === fileName);
+      }
+      const seen = new Set<string>();
+      while (path && path in this.pathHistory && !seen.has(path)) {
+        seen.add(path);
+        path = this.pathHistory[path];
+      }
+      const file = path && seen.size > 0 ? this.plugin.vault.getAbstractFileByPath(path) : null;
+      return file instanceof TFile ? file : null;
+    }
+
+    // Tells what changed since the workspace was saved, and highlights the changed nodes for a while
+    private reportChanges(name: string, summary: ReconcileSummary, viz: Juggl) {
+      const parts = [];
+      if (summary.deleted.length > 0) {
+        parts.push(`${summary.deleted.length} notes deleted`);
+      }
+      if (summary.renamed.length > 0) {
+        parts.push(`${summary.renamed.length} renamed`);
+      }
+      if (summary.changedLinks.length > 0) {
+        parts.push(`${summary.changedLinks.length} with changed links`);
+      }
+      if (parts.length === 0) {
+        return;
+      }
+      console.log('[Juggl Debug] Changes since workspace was saved', name, summary);
+      new Notice(`Since ${name} was saved: ${parts.join(', ')}`, WORKSPACE_CHANGES_HIGHLIGHT_TIME);
+      let changed: NodeCollection = viz.viz.collection();
+      for (const id of summary.renamed.map((r) => r.to).concat(summary.changedLinks)) {
+        changed = changed.union(viz.viz.$id(id));
+      }
+      changed.addClass(CLASS_CHANGED);
+      setTimeout(() => changed.removeClass(CLASS_CHANGED), WORKSPACE_CHANGES_HIGHLIGHT_TIME);
+    }
+
+    // Loads the cards, files and edges of a canvas into the view, at their position on the canvas
+    async importCanvas(file: TFile, viz: Juggl) {
+      try {
+        const imported = parseCanvas(await this.plugin.vault.read(file), file.path, (path) => {
+          const cardFile = this.plugin.vault.getAbstractFileByPath(path);
+          return cardFile instanceof TFile ? VizId.fromFile(cardFile).toId() : null;
+        });
+        await this.plugin.cardStore.addCanvas(imported);
+        const definitions: NodeDefinition[] = [];
+        for (const {id} of imported.nodes) {
+          const vizId = VizId.fromId(id);
+          const definition = vizId.storeId === CARD_STORE_ID ?
+            this.plugin.cardStore.nodeDefinition(this.plugin.cardStore.cards[vizId.id]) :
+            await viz.datastores.coreStore.get(vizId, viz);
+          if (definition) {
+            definitions.push(definition);
+          }
+        }
+        viz.mergeToGraph(definitions, true, false);
+        viz.viz.startBatch();
+        for (const {id, position} of imported.nodes) {
+          viz.viz.$id(id).position(position);
+        }
+        viz.viz.endBatch();
+        viz.mergeToGraph(await viz.buildEdges(viz.viz.nodes()), true, false);
+        viz.onGraphChanged(true);
+        viz.fitView();
+        const skipped = imported.skipped > 0 ? ` Skipped ${imported.skipped} groups and missing files.` : '';
+        new Notice(`Imported ${file.basename}. Save it as a workspace from the toolbar.${skipped}`);
       } catch (e) {
-        console.log(e);
+        console.error('[Juggl Debug] Failed to import canvas', file.path, e);
+        new Notice(`Could not import ${file.path}: ${e.message}`, 10000);
       }
-    };
+    }
+
+    snapshotFolder(name: string): string {
+      return this.workspaceFolder(name) + '/' + SNAPSHOT_FOLDER;
+    }
+
+    async writeSnapshot(name: string, manifest: WorkspaceManifest) {
+      const folder = this.snapshotFolder(name);
+      await this.adapter.mkdir(folder);
+      // ISO dates sort chronologically, but colons aren't allowed in file names on every platform
+      const id = manifest.savedAt.replace(/:/g, '-');
+      await this.adapter.write(`${folder}/${id}.json`, JSON.stringify(manifest));
+
+      const snapshots = await this.listSnapshotFiles(name);
+      for (const old of snapshots.slice(0, Math.max(0, snapshots.length - WORKSPACE_MAX_SNAPSHOTS))) {
+        await this.adapter.remove(old);
+      }
+    }
+
+    private async listSnapshotFiles(name: string): Promise<string[]> {
+      const folder = this.snapshotFolder(name);
+      if (!(await this.adapter.exists(folder))) {
+        return [];
+      }
+      return (await this.adapter.list(folder)).files.filter((f) => f.endsWith('.json')).sort();
+    }
 
-    async deleteGraph(name: string, view: Juggl) {
+    // The snapshots of a workspace, newest first
+    async listSnapshots(name: string): Promise<SnapshotInfo[]> {
+      const path = require('path');
+      const infos: SnapshotInfo[] = [];
+      for (const file of (await this.listSnapshotFiles(name)).reverse()) {
+        const id = path.basename(file, '.json');
+        try {
+          const manifest = await this.readSnapshot(name, id);
+          infos.push({
+            id,
+            savedAt: new Date(manifest.savedAt),
+            nodes: manifest.graph.elements.nodes?.length || 0,
+            edges: manifest.graph.elements.edges?.length || 0,
+          });
+        } catch (e) {
+          console.error('[Juggl Debug] Skipping unreadable snapshot', file, e);
+        }
+      }
+      return infos;
+    }
+
+    async readSnapshot(name: string, id: string): Promise<WorkspaceManifest> {
+      const file = `${this.snapshotFolder(name)}/${id}.json`;
+      let raw: any;
+      try {
+        raw = JSON.parse(await this.adapter.read(file));
+      } catch (e) {
+        throw new WorkspaceFormatError(`Could not parse snapshot ${id}`, [e.message]);
+      }
+      return parseManifest(raw);
+    }
+
+    // Makes a snapshot the current state of the workspace, and loads it in the view if there is one.
+    async restoreSnapshot(name: string, id: string, viz?: Juggl) {
+      try {
+        const snapshot = await this.readSnapshot(name, id);
+        // The snapshot may have been made before the workspace was renamed
+        await this.writeManifest(name, {...snapshot, name, savedAt: new Date().toISOString()});
+      } catch (e) {
+        console.error('[Juggl Debug] Failed to restore snapshot', id, e);
+        new Notice(`Could not restore snapshot ${id}: ${e.message}`, 10000);
+        return;
+      }
+      if (viz) {
+        await this.loadGraph(name, viz);
+      }
+    }
+
+    // Snapshots the workspace open in the view some time after its nodes or edges change
+    trackChanges(name: string, viz: Juggl) {
+      const open = this.openWorkspaces.get(viz);
+      if (open) {
+        open.name = name;
+        return;
+      }
+      const entry = {name};
+      const snapshot = debounce(() => this.autoSnapshot(entry.name, viz), DEBOUNCE_WORKSPACE_SNAPSHOT, true);
+      viz.on('elementsChange', () => {
+        if (this.plugin.settings.autoSnapshotWorkspaces) {
+          snapshot();
+        }
+      });
+      this.openWorkspaces.set(viz, entry);
+    }
+
+    private async autoSnapshot(name: string, viz: Juggl) {
+      if (!viz.vizReady || !viz.viz) {
+        return;
+      }
       try {
-        await this.adapter.rmdir(DATA_FOLDER + name, true);
+        const manifest = createManifest(name, viz.viz.json(), viz.settings);
+        const latest = (await this.listSnapshotFiles(name)).pop();
+        if (latest) {
+          const path = require('path');
+          const previous = await this.readSnapshot(name, path.basename(latest, '.json'));
+          // Layouts move nodes around all the time, only the structure is worth a snapshot
+          if (isEmptyDiff(diffManifests(previous, manifest))) {
+            return;
+          }
+        }
+        await this.writeSnapshot(name, manifest);
+      } catch (e) {
+        console.error('[Juggl Debug] Failed to snapshot workspace', name, e);
+      }
+    }
+
+    async deleteGraph(name: string, view?: Juggl) {
+      try {
+        const note = this.workspaceNote(name);
+        if (note) {
+          await this.plugin.app.vault.trash(note, true);
+          delete this.notePaths[name];
+        }
+        if (await this.adapter.exists(this.workspaceFolder(name))) {
+          await this.adapter.rmdir(this.workspaceFolder(name), true);
+        }
         this.graphs.remove(name);
+        this.removeRecent(name);
       } catch (e) {
-        console.log(e);
+        console.error('[Juggl Debug] Failed to delete workspace', name, e);
+        new Notice(`Could not delete workspace ${name}: ${e.message}`);
+      }
+    }
+
+    // Returns why the name can't be used for a new workspace, or null if it can.
+    validateName(name: string): string {
+      if (!name || name.trim() === '') {
+        return 'The name can\'t be empty';
+      }
+      if (/[\\/:]/.test(name) || name.startsWith('.')) {
+        return 'The name can\'t contain /, \\ or : and can\'t start with a dot';
+      }
+      if (this.graphs.contains(name)) {
+        return `A workspace named ${name} already exists`;
+      }
+      return null;
+    }
+
+    async renameGraph(name: string, newName: string): Promise<boolean> {
+      const error = this.validateName(newName);
+      if (error) {
+        new Notice(error);
+        return false;
+      }
+      try {
+        const folder = DATA_FOLDER(this.plugin.vault);
+        const note = this.workspaceNote(name);
+        if (note) {
+          // Renaming through the file manager updates the links to the note
+          const manifest = await this.readManifest(name);
+          const path = normalizePath(`${note.parent?.path || ''}/${newName}.md`);
+          await this.plugin.app.fileManager.renameFile(note, path);
+          await this.plugin.vault.modify(note, serializeWorkspaceNote({...manifest, name: newName}));
+          delete this.notePaths[name];
+          this.notePaths[newName] = note.path;
+        }
+        if (await this.adapter.exists(folder + name)) {
+          await this.adapter.rename(folder + name, folder + newName);
+        }
+        // Update the name in the manifest without adding a snapshot, as the graph didn't change
+        if (await this.adapter.exists(folder + newName + '/' + MANIFEST_FILE)) {
+          const manifest = await this.readManifest(newName);
+          await this.adapter.write(folder + newName + '/' + MANIFEST_FILE, JSON.stringify({...manifest, name: newName}));
+        }
+        for (const file of await this.listSnapshotFiles(newName)) {
+          try {
+            const snapshot = JSON.parse(await this.adapter.read(file));
+            await this.adapter.write(file, JSON.stringify({...snapshot, name: newName}));
+          } catch (e) {
+            console.error('[Juggl Debug] Skipping unreadable snapshot', file, e);
+          }
+        }
+        this.graphs[this.graphs.indexOf(name)] = newName;
+        const recent = this.plugin.settings.recentWorkspaces;
+        if (recent.contains(name)) {
+          recent[recent.indexOf(name)] = newName;
+          await this.plugin.saveData(this.plugin.settings);
+        }
+        return true;
+      } catch (e) {
+        console.error('[Juggl Debug] Failed to rename workspace', name, e);
+        new Notice(`Could not rename workspace ${name}: ${e.message}`);
+        return false;
+      }
+    }
+
+    async duplicateGraph(name: string, newName: string): Promise<boolean> {
+      const error = this.validateName(newName);
+      if (error) {
+        new Notice(error);
+        return false;
+      }
+      try {
+        const manifest = await this.readManifest(name);
+        await this.writeManifest(newName, {...manifest, name: newName, savedAt: new Date().toISOString()});
+        return true;
+      } catch (e) {
+        console.error('[Juggl Debug] Failed to duplicate workspace', name, e);
+        new Notice(`Could not duplicate workspace ${name}: ${e.message}`);
+        return false;
+      }
+    }
+
+    // Workspaces that were loaded most recently, most recent first. Only contains existing workspaces.
+    recentGraphs(): string[] {
+      return this.plugin.settings.recentWorkspaces.filter((name) => this.graphs.contains(name));
+    }
+
+    private addRecent(name: string) {
+      const recent = this.plugin.settings.recentWorkspaces;
+      recent.remove(name);
+      recent.unshift(name);
+      recent.splice(WORKSPACE_MAX_RECENT);
+      this.plugin.saveData(this.plugin.settings);
+    }
+
+    private removeRecent(name: string) {
+      if (this.plugin.settings.recentWorkspaces.contains(name)) {
+        this.plugin.settings.recentWorkspaces.remove(name);
+        this.plugin.saveData(this.plugin.settings);
       }
     }
 }
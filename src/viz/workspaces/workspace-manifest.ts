@@ -0,0 +1,172 @@
+// The on-disk format of saved workspace graphs.
+//
+// Version 1 (unversioned) stored the raw `viz.json()` in graph.json, and the graph settings in settings.json.
+// Version 2 stores both in a single manifest.json, together with the format version.
+// When changing the shape of the saved data, bump WORKSPACE_FORMAT_VERSION and add a migration from the
+// previous version to MIGRATIONS.
+
+export const WORKSPACE_FORMAT_VERSION = 2;
+export const MANIFEST_FILE = 'manifest.json';
+export const LEGACY_GRAPH_FILE = 'graph.json';
+export const LEGACY_SETTINGS_FILE = 'settings.json';
+
+export interface WorkspaceManifest {
+  version: number;
+  name: string;
+  savedAt: string;
+  // The output of cytoscape's `json()`
+  graph: {elements: {nodes?: any[], edges?: any[]}, [key: string]: any};
+  settings: Record<string, any>;
+}
+
+export class WorkspaceFormatError extends Error {
+  errors: string[];
+  constructor(message: string, errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join('; ')}` : message);
+    this.name = 'WorkspaceFormatError';
+    this.errors = errors;
+  }
+}
+
+// Migrates a manifest of the version it is keyed by to the next version.
+const MIGRATIONS: Record<number, (manifest: any) => any> = {
+  1: (manifest: any) => ({
+    version: 2,
+    name: manifest.name,
+    savedAt: manifest.savedAt || new Date(0).toISOString(),
+    graph: manifest.graph,
+    settings: manifest.settings,
+  }),
+};
+
+// Wraps the contents of graph.json and settings.json of a workspace saved before versioning.
+export function legacyManifest(name: string, graph: any, settings: any): any {
+  return {version: 1, name, graph, settings};
+}
+
+export function createManifest(name: string, graph: any, settings: any): WorkspaceManifest {
+  return {
+    version: WORKSPACE_FORMAT_VERSION,
+    name,
+    savedAt: new Date().toISOString(),
+    graph,
+    settings,
+  };
+}
+
+// Brings a manifest of any older version up to WORKSPACE_FORMAT_VERSION.
+export function migrateManifest(manifest: any): any {
+  if (!isObject(manifest) || typeof manifest.version !== 'number') {
+    throw new WorkspaceFormatError('Workspace has no format version');
+  }
+  if (manifest.version > WORKSPACE_FORMAT_VERSION) {
+    throw new WorkspaceFormatError(`Workspace was saved with a newer version of Juggl (format ${manifest.version}, ` +
+        `this version supports up to ${WORKSPACE_FORMAT_VERSION}). Please update Juggl`);
+  }
+  while (manifest.version < WORKSPACE_FORMAT_VERSION) {
+    const migration = MIGRATIONS[manifest.version];
+    if (!migration) {
+      throw new WorkspaceFormatError(`No migration from workspace format ${manifest.version}`);
+    }
+    manifest = migration(manifest);
+  }
+  return manifest;
+}
+
+// Checks a manifest of the current version against the schema. Returns a list of problems, empty if it is valid.
+export function validateManifest(manifest: any): string[] {
+  const errors: string[] = [];
+  if (!isObject(manifest)) {
+    return ['manifest is not an object'];
+  }
+  if (manifest.version !== WORKSPACE_FORMAT_VERSION) {
+    errors.push(`version should be ${WORKSPACE_FORMAT_VERSION}, got ${manifest.version}`);
+  }
+  if (typeof manifest.name !== 'string') {
+    errors.push('name should be a string');
+  }
+  if (typeof manifest.savedAt !== 'string' || isNaN(Date.parse(manifest.savedAt))) {
+    errors.push('savedAt should be an ISO date');
+  }
+  if (!isObject(manifest.settings)) {
+    errors.push('settings should be an object');
+  }
+  if (!isObject(manifest.graph) || !isObject(manifest.graph.elements)) {
+    errors.push('graph.elements should be an object');
+    return errors;
+  }
+  const elements = manifest.graph.elements;
+  const nodeIds = new Set<string>();
+  for (const group of ['nodes', 'edges']) {
+    if (elements[group] !== undefined && !Array.isArray(elements[group])) {
+      errors.push(`graph.elements.${group} should be an array`);
+    }
+  }
+  (elements.nodes || []).forEach((node: any, i: number) => {
+    if (!isObject(node) || !isObject(node.data) || typeof node.data.id !== 'string') {
+      errors.push(`graph.elements.nodes[${i}] has no data.id`);
+    } else {
+      nodeIds.add(node.data.id);
+    }
+  });
+  (elements.edges || []).forEach((edge: any, i: number) => {
+    if (!isObject(edge) || !isObject(edge.data) || typeof edge.data.id !== 'string') {
+      errors.push(`graph.elements.edges[${i}] has no data.id`);
+      return;
+    }
+    for (const end of ['source', 'target']) {
+      if (!nodeIds.has(edge.data[end])) {
+        errors.push(`graph.elements.edges[${i}] has an unknown ${end} ${edge.data[end]}`);
+      }
+    }
+  });
+  return errors;
+}
+
+// Migrates and validates a manifest read from disk.
+export function parseManifest(raw: any): WorkspaceManifest {
+  const manifest = migrateManifest(raw);
+  const errors = validateManifest(manifest);
+  if (errors.length > 0) {
+    throw new WorkspaceFormatError('Workspace is invalid', errors);
+  }
+  return manifest;
+}
+
+export interface WorkspaceDiff {
+  addedNodes: string[];
+  removedNodes: string[];
+  addedEdges: string[];
+  removedEdges: string[];
+}
+
+// The nodes and edges that were added and removed going from one manifest to another.
+export function diffManifests(from: WorkspaceManifest, to: WorkspaceManifest): WorkspaceDiff {
+  const ids = (manifest: WorkspaceManifest, group: 'nodes' | 'edges') =>
+    new Set<string>((manifest.graph.elements[group] || []).map((e: any) => e.data.id));
+  const difference = (a: Set<string>, b: Set<string>) => [...a].filter((id) => !b.has(id));
+  const fromNodes = ids(from, 'nodes');
+  const toNodes = ids(to, 'nodes');
+  const fromEdges = ids(from, 'edges');
+  const toEdges = ids(to, 'edges');
+  return {
+    addedNodes: difference(toNodes, fromNodes),
+    removedNodes: difference(fromNodes, toNodes),
+    addedEdges: difference(toEdges, fromEdges),
+    removedEdges: difference(fromEdges, toEdges),
+  };
+}
+
+export function isEmptyDiff(diff: WorkspaceDiff): boolean {
+  return diff.addedNodes.length + diff.removedNodes.length + diff.addedEdges.length + diff.removedEdges.length === 0;
+}
+
+// Whether the folder of a workspace holds a saved graph, in either format. The folder also exists when it only holds
+// the snapshots of a workspace that is saved as a note.
+export async function hasSavedGraph(folder: string, exists: (path: string) => Promise<boolean>): Promise<boolean> {
+  return await exists(folder + '/' + MANIFEST_FILE) || await exists(folder + '/' + LEGACY_GRAPH_FILE);
+}
+
+function isObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
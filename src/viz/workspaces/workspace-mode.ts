@@ -4,12 +4,13 @@ import type {Juggl} from '../visualization';
 import type {NodeCollection} from 'cytoscape';
 import type {Menu} from 'obsidian';
 import Toolbar from '../../ui/toolbar/Toolbar.svelte';
-import {Component} from 'obsidian';
+import {Component, Notice} from 'obsidian';
 import {VizId} from 'juggl-api';
 import {
   CLASS_ACTIVE_NODE,
   CLASS_CONNECTED_ACTIVE_NODE, CLASS_EXPANDED, CLASS_HARD_FILTERED,
   CLASS_INACTIVE_NODE, CLASS_PINNED, CLASS_PROTECTED,
+  TERMINAL_PREVIEW_DELAY, TERMINAL_PREVIEW_LINES,
   VIEWPORT_ANIMATION_TIME,
 } from '../../constants';
 import type {Core} from 'cytoscape';
@@ -19,6 +20,10 @@ import {
 } from '../layout-settings';
 import {icons, pathToSvg} from '../../ui/icons';
 import {WorkspaceModal} from '../../ui/workspace-modal';
+import {AgentProfileModal} from '../../ui/agent-profile-modal';
+import {ExportModal} from '../../ui/export-modal';
+import {ImageExportModal} from '../../ui/image-export-modal';
+import type {SavedQuery} from '../saved-queries';
 import {BreathingAnimationManager, AnimationType} from '../animations/breathing-animation';
 
 
@@ -113,25 +118,18 @@ export class WorkspaceMode extends Component implements IAGMode {
             });
           }
           
-          // GEMINI option
-          commands.push({
-            content: 'GEMINI',
-            select: async function(ele: NodeSingular) {
-              console.log('[Juggl Debug] GEMINI option clicked for:', id.id);
-              await plugin.terminalStore.spawnTerminalForFile(id.id, ele, { agent: 'gemini' });
-            },
-            enabled: true,
-          });
-          
-          // CLAUDE option
-          commands.push({
-            content: 'CLAUDE',
-            select: async function(ele: NodeSingular) {
-              console.log('[Juggl Debug] CLAUDE option clicked for:', id.id);
-              await plugin.terminalStore.spawnTerminalForFile(id.id, ele, { agent: 'claude' });
-            },
-            enabled: true,
-          });
+          // Agent profile options
+          for (const profile of plugin.settings.agentProfiles) {
+            commands.push({
+              content: profile.icon.path ? pathToSvg(profile.icon.path) : profile.name,
+              fillColor: profile.color,
+              select: async function(ele: NodeSingular) {
+                console.log(`[Juggl Debug] ${profile.name} option clicked for:`, id.id);
+                await plugin.terminalStore.spawnTerminalForFile(id.id, ele, profile);
+              },
+              enabled: true,
+            });
+          }
           
           // Expand/Collapse option
           if (n.hasClass(CLASS_EXPANDED)) {
@@ -153,6 +151,19 @@ export class WorkspaceMode extends Component implements IAGMode {
           }
         }
         
+        // Session nodes group the terminals of a source note
+        if (id.storeId === 'terminal' && plugin.terminalStore.isSessionId(id.id)) {
+          const collapsed = n.hasClass('terminal-session-collapsed');
+          commands.push({
+            content: pathToSvg(collapsed ? icons.ag_expand : icons.ag_collapse),
+            select: function(ele: NodeSingular) {
+              plugin.terminalStore.toggleSession(id.id);
+            },
+            enabled: true,
+          });
+          return commands;
+        }
+
         // Terminal node specific commands
         if (id.storeId === 'terminal') {
           commands.push({
@@ -173,6 +184,24 @@ export class WorkspaceMode extends Component implements IAGMode {
             },
             enabled: true,
           });
+
+          commands.push({
+            content: 'Restart',
+            select: async function(ele: NodeSingular) {
+              console.log('[Juggl Debug] Restart clicked for:', id.id);
+              await plugin.terminalStore.restartTerminal(id.id);
+            },
+            enabled: true,
+          });
+
+          commands.push({
+            content: 'Transcript',
+            select: async function(ele: NodeSingular) {
+              console.log('[Juggl Debug] Transcript clicked for:', id.id);
+              await plugin.terminalStore.openTranscript(id.id);
+            },
+            enabled: true,
+          });
         }
 
         return commands;
@@ -223,13 +252,21 @@ export class WorkspaceMode extends Component implements IAGMode {
         this.breathingAnimationManager.stopAnimationForNode(node);
       }
       
+      const id = VizId.fromNode(e.target);
       if (e.originalEvent.metaKey || e.originalEvent.ctrlKey) {
         console.log('[Juggl Human] meta/ctrl');
 
-        const id = VizId.fromNode(e.target);
         if (id.storeId === 'terminal') {
           await this.view.plugin.terminalStore.convertTerminalToHoverEditor(id.id, e.target);
         }
+      } else if (id.storeId === 'terminal') {
+        // Preview what the terminal is doing. The timeout is cleared on mouseout by the view.
+        this.view.hoverTimeout[node.id()] = setTimeout(async () => {
+          const output = this.view.plugin.terminalStore.getOutputTail(id.id, TERMINAL_PREVIEW_LINES);
+          if (output && this.viz.$id(node.id()).length > 0) {
+            await this.view.popover('````text\n' + output + '\n````', '', node, 'juggl-preview-terminal');
+          }
+        }, TERMINAL_PREVIEW_DELAY);
       }
     });
 
@@ -418,6 +455,14 @@ export class WorkspaceMode extends Component implements IAGMode {
       });
     }
     if (nodes.length > 0) {
+      if (nodes.filter((n) => VizId.fromNode(n).storeId === 'core').length > 0) {
+        menu.addItem((item) => {
+          item.setTitle('Run agent on selection').setIcon('ag-agent')
+              .onClick((evt) => {
+                this.runAgentOnNodes(nodes);
+              });
+        });
+      }
       menu.addItem((item) => {
         item.setTitle('Select neighbors (N)').setIcon('ag-select-neighbors')
             .onClick((evt) => {
@@ -442,6 +487,12 @@ export class WorkspaceMode extends Component implements IAGMode {
         });
       }
     }
+    menu.addItem((item) => {
+      item.setTitle(nodes.length > 0 ? 'Export selection' : 'Export graph').setIcon('ag-export')
+          .onClick((evt) => {
+            new ExportModal(this.view.plugin.app, this.view).open();
+          });
+    });
   }
 
   createToolbar(element: Element) {
@@ -460,9 +511,12 @@ export class WorkspaceMode extends Component implements IAGMode {
         selectAllClick: this.selectAll.bind(this),
         selectInvertClick: this.invertSelection.bind(this),
         selectNeighborClick: this.selectNeighboursOfSelected.bind(this),
+        runAgentClick: this.runAgentOnSelection.bind(this),
         lockClick: this.pinSelection.bind(this),
         unlockClick: this.unpinSelection.bind(this),
         fitClick: this.view.fitView.bind(this.view),
+        exportClick: () => new ExportModal(this.view.plugin.app, this.view).open(),
+        imageClick: () => new ImageExportModal(this.view.plugin.app, this.view).open(),
         localModeClick: () => this.view.setMode('local'),
         filterInput: (handler: InputEvent) => {
           // @ts-ignore
@@ -475,9 +529,13 @@ export class WorkspaceMode extends Component implements IAGMode {
             new WorkspaceModal(this.view.plugin.app, this.view.plugin.workspaceManager, this.view).open();
           }
         },
+        savedQueries: () => this.view.savedQueries(),
+        savedQueryApply: (query: SavedQuery) => this.view.applySavedQuery(query),
+        queryVocabulary: () => this.view.queryVocabulary(),
         workspace: this.view.plugin.app.workspace,
       },
     });
+    this.view.on('savedQuery', (query: SavedQuery) => this.toolbar.$set({filterValue: query.filter}));
     this.view.on('selectChange', this.toolbar.onSelect.bind(this.toolbar));
     this.view.on('vizReady', (viz) => {
       this.toolbar.$set({viz: viz});
@@ -600,4 +658,24 @@ export class WorkspaceMode extends Component implements IAGMode {
   pinSelection() {
     this.pin(this.viz.nodes(':selected'));
   }
+
+  runAgentOnNodes(nodes: NodeCollection) {
+    const plugin = this.view.plugin;
+    const profiles = plugin.settings.agentProfiles.filter((p) => p.command);
+    if (profiles.length === 0) {
+      new Notice('Add an agent profile in the Juggl settings first.');
+      return;
+    }
+    if (profiles.length === 1) {
+      plugin.terminalStore.runAgentOnNodes(nodes, profiles[0]);
+      return;
+    }
+    new AgentProfileModal(plugin.app, profiles, (profile) => {
+      plugin.terminalStore.runAgentOnNodes(nodes, profile);
+    }).open();
+  }
+
+  runAgentOnSelection() {
+    this.runAgentOnNodes(this.viz.nodes(':selected'));
+  }
 }
@@ -0,0 +1,57 @@
+// Workspaces stored as markdown notes in the vault, so that they sync with the vault and can be linked to.
+//
+// The note has frontmatter with metadata about the workspace, and links to all notes in the graph under
+// WORKSPACE_NODES_KEY. Obsidian resolves these frontmatter links, so they show up as links and backlinks, both in
+// Obsidian and in the ObsidianStore. The graph itself is stored in a fenced WORKSPACE_BLOCK code block.
+import type {WorkspaceManifest} from './workspace-manifest';
+
+export const WORKSPACE_BLOCK = 'juggl-workspace';
+// Frontmatter key with the name of the workspace. Notes with this key are workspaces.
+export const WORKSPACE_NAME_KEY = 'juggl-workspace';
+export const WORKSPACE_NODES_KEY = 'juggl-nodes';
+
+// Wikilink targets for the notes in the graph. Only nodes of the core store are notes.
+export function workspaceLinks(manifest: WorkspaceManifest): string[] {
+  const links: string[] = [];
+  for (const node of manifest.graph.elements.nodes || []) {
+    const id: string = node.data.id;
+    if (!id.startsWith('core:')) {
+      continue;
+    }
+    const name = id.slice('core:'.length);
+    links.push(name.endsWith('.md') ? name.slice(0, -'.md'.length) : name);
+  }
+  return links;
+}
+
+export function serializeWorkspaceNote(manifest: WorkspaceManifest): string {
+  const elements = manifest.graph.elements;
+  // JSON strings are valid YAML strings
+  const frontmatter = [
+    `${WORKSPACE_NAME_KEY}: ${JSON.stringify(manifest.name)}`,
+    `juggl-format: ${manifest.version}`,
+    `saved: ${JSON.stringify(manifest.savedAt)}`,
+    `node-count: ${elements.nodes?.length || 0}`,
+    `edge-count: ${elements.edges?.length || 0}`,
+    `tags: [juggl-workspace]`,
+    `${WORKSPACE_NODES_KEY}:`,
+    ...workspaceLinks(manifest).map((link) => `  - ${JSON.stringify(`[[${link}]]`)}`),
+  ];
+  return `---
+${frontmatter.join('\n')}
+---
+
+\`\`\`${WORKSPACE_BLOCK}
+${JSON.stringify(manifest, null, 1)}
+\`\`\`
+`;
+}
+
+// Returns the raw manifest stored in the note, or null if the note has no workspace block.
+export function parseWorkspaceNote(content: string): any {
+  const match = content.match(new RegExp('^```' + WORKSPACE_BLOCK + '[ \\t]*\\r?\\n([\\s\\S]*?)\\r?\\n```', 'm'));
+  if (!match) {
+    return null;
+  }
+  return JSON.parse(match[1]);
+}
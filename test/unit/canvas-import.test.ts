@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import { mergeCanvas, parseCanvas } from '../../src/viz/workspaces/canvas-import.js';
+
+describe('Canvas import', () => {
+    const canvas = JSON.stringify({
+        nodes: [
+            { id: 'f1', type: 'file', file: 'notes/a.md', x: 0, y: 0, width: 100, height: 50 },
+            { id: 't1', type: 'text', text: 'An idea', x: 500, y: 250, width: 100, height: 50, color: '4' },
+            { id: 'f2', type: 'file', file: 'missing.md', x: 0, y: 0, width: 100, height: 50 },
+            { id: 'g1', type: 'group', label: 'Group', x: 0, y: 0, width: 1000, height: 1000 },
+        ],
+        edges: [
+            { id: 'e1', fromNode: 't1', toNode: 'f1', label: 'explains', color: '#123456' },
+            { id: 'e2', fromNode: 'f1', toNode: 't1' },
+            { id: 'e3', fromNode: 'f2', toNode: 't1' },
+        ],
+    });
+    const fileId = (path: string) => (path === 'notes/a.md' ? 'core:a.md' : null);
+
+    it('maps file cards to core nodes and text cards to cards', () => {
+        const imported = parseCanvas(canvas, 'board.canvas', fileId);
+        expect(imported.nodes.map((n) => n.id)).to.deep.equal(['core:a.md', 'card:board.canvas#t1']);
+        expect(imported.cards).to.deep.equal([{ id: 'board.canvas#t1', text: 'An idea', color: '#44cf6e' }]);
+        expect(imported.skipped).to.equal(2);
+    });
+
+    it('keeps the centers of the cards', () => {
+        const imported = parseCanvas(canvas, 'board.canvas', fileId);
+        expect(imported.nodes[0].position).to.deep.equal({ x: 10, y: 5 });
+        expect(imported.nodes[1].position).to.deep.equal({ x: 110, y: 55 });
+    });
+
+    it('types edges by their label', () => {
+        const imported = parseCanvas(canvas, 'board.canvas', fileId);
+        expect(imported.edges).to.deep.equal([
+            { id: 'board.canvas#e1', source: 'card:board.canvas#t1', target: 'core:a.md', type: 'explains', color: '#123456' },
+            { id: 'board.canvas#e2', source: 'core:a.md', target: 'card:board.canvas#t1', type: 'canvas', color: undefined },
+        ]);
+    });
+
+    it('replaces the cards and edges of a canvas that is imported again', () => {
+        const first = parseCanvas(canvas, 'board.canvas', fileId);
+        const other = parseCanvas(canvas, 'other.canvas', fileId);
+        const changed = JSON.stringify({
+            nodes: [
+                { id: 'f1', type: 'file', file: 'notes/a.md', x: 0, y: 0 },
+                { id: 't2', type: 'text', text: 'A new idea', x: 0, y: 0 },
+            ],
+            edges: [{ id: 'e4', fromNode: 'f1', toNode: 't2' }],
+        });
+        let merged = mergeCanvas({}, {}, first);
+        merged = mergeCanvas(merged.cards, merged.edges, other);
+        merged = mergeCanvas(merged.cards, merged.edges, parseCanvas(changed, 'board.canvas', fileId));
+        expect(Object.keys(merged.cards)).to.have.members(['other.canvas#t1', 'board.canvas#t2']);
+        expect(Object.keys(merged.edges)).to.have.members(['other.canvas#e1', 'other.canvas#e2', 'board.canvas#e4']);
+    });
+});
@@ -0,0 +1,59 @@
+import { expect } from 'chai';
+import { FullTextIndex, tokenize } from '../../src/full-text-index.js';
+
+describe('Full text index', () => {
+    const index = () => {
+        const text = new FullTextIndex();
+        text.add('a', 'The agent wrote a summary of the meeting.');
+        text.add('b', 'Meeting notes: agents, agents and more agents.');
+        text.add('c', 'Grocery list: apples, Äpfel.');
+        return text;
+    };
+
+    it('tokenizes words of any language in lower case', () => {
+        expect(tokenize('Hello, Wörld! 42x')).to.deep.equal(['hello', 'wörld', '42x']);
+        expect(tokenize('')).to.deep.equal([]);
+    });
+
+    it('matches documents that contain all words, or words containing them', () => {
+        const text = index();
+        expect([...text.matches('meeting')].sort()).to.deep.equal(['a', 'b']);
+        expect([...text.matches('agent summary')]).to.deep.equal(['a']);
+        expect([...text.matches('äpf')]).to.deep.equal(['c']);
+        expect([...text.matches('ing')].sort()).to.deep.equal(['a', 'b']);
+        expect([...text.matches('agent apples')]).to.deep.equal([]);
+        expect([...text.matches('')]).to.deep.equal([]);
+    });
+
+    it('ranks documents by how well they match', () => {
+        const text = index();
+        expect(text.search('agents').map((r) => r.id)).to.deep.equal(['b']);
+        expect(text.search('agent').map((r) => r.id)).to.deep.equal(['a', 'b']);
+        expect(text.search('agent', 1)).to.have.length(1);
+        expect(text.search('gent').map((r) => r.id)).to.deep.equal(['b', 'a']);
+    });
+
+    it('updates, renames and removes documents', () => {
+        const text = index();
+        text.add('c', 'A new agent list');
+        expect([...text.matches('apples')]).to.deep.equal([]);
+        expect([...text.matches('agent list')]).to.deep.equal(['c']);
+        text.rename('c', 'd');
+        expect(text.has('c')).to.equal(false);
+        expect([...text.matches('agent list')]).to.deep.equal(['d']);
+        text.remove('d');
+        expect([...text.matches('list')]).to.deep.equal([]);
+        text.clear();
+        expect(text.docs.size).to.equal(0);
+        expect(text.totalLength).to.equal(0);
+    });
+
+    it('tracks which documents changed since a version', () => {
+        const text = index();
+        const version = text.version;
+        text.add('a', 'changed');
+        text.remove('b');
+        expect(text.changedSince(version).sort()).to.deep.equal(['a', 'b']);
+        expect(text.changedSince(text.version)).to.deep.equal([]);
+    });
+});
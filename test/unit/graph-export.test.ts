@@ -0,0 +1,55 @@
+import { expect } from 'chai';
+import { toCanvas, toDot, toGraphML, toHex, toMermaid } from '../../src/viz/graph-export.js';
+import type { ExportGraph } from '../../src/viz/graph-export.js';
+
+describe('Graph export', () => {
+    const graph: ExportGraph = {
+        nodes: [
+            { id: 'core:a.md', label: 'A "quoted" note', x: 10, y: 20, color: '#ff0000', file: 'folder/a.md' },
+            { id: 'card:1', label: 'Card', x: 100, y: -50 },
+        ],
+        edges: [
+            { id: 'core:a.md->card:11', source: 'core:a.md', target: 'card:1', label: 'depends on', color: '#00ff00' },
+        ],
+    };
+
+    it('writes Mermaid flowcharts with escaped labels and styles', () => {
+        expect(toMermaid(graph)).to.equal([
+            'flowchart LR',
+            '  n0["A #quot;quoted#quot; note"]',
+            '  n1["Card"]',
+            '  n0 -->|"depends on"| n1',
+            '  style n0 fill:#ff0000',
+            '  linkStyle 0 stroke:#00ff00',
+            '',
+        ].join('\n'));
+    });
+
+    it('writes DOT with pinned positions', () => {
+        const dot = toDot(graph);
+        expect(dot).to.contain('"core:a.md" [label="A \\"quoted\\" note", pos="10,-20!", style="filled", fillcolor="#ff0000"];');
+        expect(dot).to.contain('"core:a.md" -> "card:1" [label="depends on", color="#00ff00"];');
+    });
+
+    it('writes GraphML with escaped attributes', () => {
+        const graphml = toGraphML(graph);
+        expect(graphml).to.contain('<data key="label">A &quot;quoted&quot; note</data>');
+        expect(graphml).to.contain('<edge id="core:a.md-&gt;card:11" source="core:a.md" target="card:1">');
+    });
+
+    it('writes file and text cards to JSON Canvas', () => {
+        const canvas = JSON.parse(toCanvas(graph));
+        expect(canvas.nodes[0]).to.include({ type: 'file', file: 'folder/a.md', color: '#ff0000' });
+        expect(canvas.nodes[1]).to.include({ type: 'text', text: 'Card' });
+        expect(canvas.edges[0]).to.deep.equal({
+            id: 'core:a.md->card:11', fromNode: 'core:a.md', toNode: 'card:1', toEnd: 'arrow',
+            label: 'depends on', color: '#00ff00',
+        });
+    });
+
+    it('converts rendered colours to hex', () => {
+        expect(toHex('rgb(255,128,0)')).to.equal('#ff8000');
+        expect(toHex('rgba(0, 0, 255, 0.5)')).to.equal('#0000ff');
+        expect(toHex('red')).to.be.undefined;
+    });
+});
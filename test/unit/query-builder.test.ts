@@ -0,0 +1,149 @@
+import { expect } from 'chai';
+import cytoscape from 'cytoscape';
+import { filter, filterEdges } from '../../src/viz/query-builder.js';
+
+describe('Query builder', () => {
+    const cy = cytoscape({
+        headless: true,
+        elements: [
+            { data: { id: 'a', name: 'a', degree: 2, size: 500, mtime: '2025-12-31T23:00:00.000Z' } },
+            { data: { id: 'b', name: 'b', degree: 6, size: 1000, mtime: '2026-01-01T10:00:00.000Z' } },
+            { data: { id: 't', name: 'terminal', status: 'running', timestamp: '2026-02-01T09:00:00.000Z' } },
+        ],
+    });
+    const ids = (query: string) => filter(query, cy.nodes()).map((n) => n.id()).sort();
+
+    it('compares numbers', () => {
+        expect(ids('degree:>5')).to.deep.equal(['b']);
+        expect(ids('size:>=1000')).to.deep.equal(['b']);
+        expect(ids('size:<1000')).to.deep.equal(['a']);
+        expect(ids('degree:=2')).to.deep.equal(['a']);
+    });
+
+    it('compares dates, where a date without time is the whole day', () => {
+        expect(ids('mtime:<2026-01-01')).to.deep.equal(['a']);
+        expect(ids('mtime:=2026-01-01')).to.deep.equal(['b']);
+        expect(ids('mtime:>2025-12-31')).to.deep.equal(['b']);
+        expect(ids('timestamp:>2026-01-15T00:00Z')).to.deep.equal(['t']);
+    });
+
+    it('matches ranges', () => {
+        expect(ids('size:100..600')).to.deep.equal(['a']);
+        expect(ids('mtime:2025-12-31..2026-01-01')).to.deep.equal(['a', 'b']);
+    });
+
+    it('matches values exactly with =', () => {
+        expect(ids('status:=running')).to.deep.equal(['t']);
+        expect(ids('status:=run')).to.deep.equal([]);
+        expect(ids('status:run')).to.deep.equal(['t']);
+    });
+
+    it('excludes relational matches', () => {
+        expect(ids('-degree:>5 size:>0')).to.deep.equal(['a']);
+    });
+
+    it('or-es values separated by commas', () => {
+        expect(ids('name:b,term')).to.deep.equal(['b', 't']);
+        expect(ids('status:"running",idle')).to.deep.equal(['t']);
+    });
+
+    it('matches values with quotes', () => {
+        expect(ids("name:it's")).to.deep.equal([]);
+    });
+
+    it('matches no nodes for malformed queries', () => {
+        expect(ids('(name:a OR name:b')).to.deep.equal([]);
+        expect(ids('')).to.deep.equal(['a', 'b', 't']);
+    });
+});
+
+describe('Query builder structural predicates', () => {
+    // a -> b -> c -> d, e -> a, and the orphans x and y
+    const cy = cytoscape({
+        headless: true,
+        elements: [
+            ...['a', 'b', 'c', 'd', 'e', 'x', 'y'].map((n) => ({
+                data: { id: `core:${n}.md`, name: n, path: `${n < 'c' ? 'Projects' : 'Archive'}/${n}.md` },
+            })),
+            { data: { id: 'ab', source: 'core:a.md', target: 'core:b.md' } },
+            { data: { id: 'bc', source: 'core:b.md', target: 'core:c.md' } },
+            { data: { id: 'cd', source: 'core:c.md', target: 'core:d.md' } },
+            { data: { id: 'ea', source: 'core:e.md', target: 'core:a.md' } },
+        ],
+    });
+    cy.$id('core:c.md').addClass('tag-x');
+    const names = (query: string) => filter(query, cy.nodes()).map((n) => n.data('name')).sort();
+
+    it('follows links in both directions', () => {
+        expect(names('linksto:"b"')).to.deep.equal(['a']);
+        expect(names('linkedfrom:b')).to.deep.equal(['c']);
+    });
+
+    it('matches neighbors of the nodes matching a query', () => {
+        expect(names('neighbor:(tag:#x)')).to.deep.equal(['b', 'd']);
+        expect(names('neighbor:(tag:#x OR name:e)')).to.deep.equal(['a', 'b', 'd']);
+    });
+
+    it('matches nodes within a number of hops', () => {
+        expect(names('within:2:"a"')).to.deep.equal(['a', 'b', 'c', 'e']);
+    });
+
+    it('matches orphans and the largest component', () => {
+        expect(names('orphan:true')).to.deep.equal(['x', 'y']);
+        expect(names('component:largest')).to.deep.equal(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    it('matches the nodes on the path between two nodes', () => {
+        expect(names('path:"e"->"c"')).to.deep.equal(['a', 'b', 'c', 'e']);
+    });
+
+    it('matches the path of notes when path: has no arrow', () => {
+        expect(names('path:Projects')).to.deep.equal(['a', 'b']);
+        expect(names('path:"a"->"c"')).to.deep.equal(['a', 'b', 'c']);
+    });
+
+    it('composes with other predicates, negation and groups', () => {
+        expect(names('component:largest -within:1:"b"')).to.deep.equal(['d', 'e']);
+        expect(names('(orphan:true) OR (linksto:"a")')).to.deep.equal(['e', 'x', 'y']);
+        expect(names('neighbor:(tag:#x) name:b')).to.deep.equal(['b']);
+    });
+});
+
+describe('Query builder edge queries', () => {
+    const cy = cytoscape({
+        headless: true,
+        elements: [
+            ...['a', 'b', 'c'].map((n) => ({ data: { id: `core:${n}.md`, name: n } })),
+            { data: { id: 'ab', source: 'core:a.md', target: 'core:b.md', type: 'Depends On', edgeCount: 1 },
+                classes: 'Depends_On type-Depends_On' },
+            { data: { id: 'bc', source: 'core:b.md', target: 'core:c.md', context: 'see [[c]]', edgeCount: 4 },
+                classes: 'inline' },
+            { data: { id: 'ca', source: 'core:c.md', target: 'core:a.md', type: 'produced by', edgeCount: 1 },
+                classes: 'terminal-connection type-produced-by' },
+        ],
+    });
+    const ids = (query: string) => filterEdges(query, cy.edges()).map((e) => e.id()).sort();
+
+    it('matches the type of links regardless of case, or their type class', () => {
+        expect(ids('type:"depends on"')).to.deep.equal(['ab']);
+        expect(ids('type:Depends_On')).to.deep.equal(['ab']);
+        expect(ids('type:produced-by,"depends on"')).to.deep.equal(['ab', 'ca']);
+    });
+
+    it('matches the notes links go from and to', () => {
+        expect(ids('from:a')).to.deep.equal(['ab']);
+        expect(ids('to:a OR to:"c"')).to.deep.equal(['bc', 'ca']);
+    });
+
+    it('matches classes, data and words', () => {
+        expect(ids('class:inline')).to.deep.equal(['bc']);
+        expect(ids('edgeCount:>1')).to.deep.equal(['bc']);
+        expect(ids('-class:terminal-connection')).to.deep.equal(['ab', 'bc']);
+        expect(ids('see')).to.deep.equal(['bc']);
+        expect(ids('depends')).to.deep.equal(['ab']);
+    });
+
+    it('matches no edges for malformed queries', () => {
+        expect(ids('(type:x')).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import cytoscape from 'cytoscape';
+import { QueryIndex } from '../../src/viz/query-index.js';
+import { FullTextIndex } from '../../src/full-text-index.js';
+
+describe('Query index', () => {
+    const graph = () => {
+        const cy = cytoscape({
+            headless: true,
+            elements: [
+                { data: { id: 'core:a.md', name: 'a', status: 'open' }, classes: 'tag-agent' },
+                { data: { id: 'core:b.md', name: 'b', status: 'done' } },
+                { data: { id: 'core:c.md', name: 'c' } },
+                { data: { id: 'ab', source: 'core:a.md', target: 'core:b.md' } },
+            ],
+        });
+        return { cy, index: new QueryIndex(cy) };
+    };
+    const names = (nodes: cytoscape.NodeCollection) => nodes.map((n) => n.data('name')).sort();
+
+    it('answers tags, classes and names from the index', () => {
+        const { index } = graph();
+        expect(names(index.match('tag:#agent'))).to.deep.equal(['a']);
+        expect(names(index.match('-class:tag-agent'))).to.deep.equal(['b', 'c']);
+        expect(names(index.match('linksto:b'))).to.deep.equal(['a']);
+    });
+
+    it('keeps results while the graph does not change', () => {
+        const { index } = graph();
+        expect(index.match('status:open')).to.equal(index.match('status:open'));
+    });
+
+    it('evaluates nodes again when their data or classes change', () => {
+        const { cy, index } = graph();
+        expect(names(index.match('status:open OR tag:#agent'))).to.deep.equal(['a']);
+        cy.$id('core:b.md').data('status', 'open');
+        cy.$id('core:c.md').addClass('tag-agent');
+        cy.$id('core:a.md').removeClass('tag-agent').data('status', 'done');
+        expect(names(index.match('status:open OR tag:#agent'))).to.deep.equal(['b', 'c']);
+    });
+
+    it('follows added and removed nodes', () => {
+        const { cy, index } = graph();
+        expect(names(index.match('status:done'))).to.deep.equal(['b']);
+        cy.add({ data: { id: 'core:d.md', name: 'd', status: 'done' } });
+        cy.$id('core:b.md').remove();
+        expect(names(index.match('status:done'))).to.deep.equal(['d']);
+    });
+
+    it('evaluates structural queries again when edges change', () => {
+        const { cy, index } = graph();
+        expect(names(index.match('orphan:true'))).to.deep.equal(['c']);
+        cy.add({ data: { id: 'bc', source: 'core:b.md', target: 'core:c.md' } });
+        expect(names(index.match('orphan:true'))).to.deep.equal([]);
+    });
+
+    it('does not evaluate nodes again for class changes it is told to ignore', () => {
+        const { cy, index } = graph();
+        index.match('status:open');
+        index.untracked(() => cy.nodes().addClass('filtered'));
+        expect(index.changed.size).to.equal(0);
+        expect(names(index.withClass('filtered'))).to.deep.equal(['a', 'b', 'c']);
+    });
+
+    it('matches content through the full text index as notes change', () => {
+        const cy = graph().cy;
+        const content = new FullTextIndex();
+        content.add('core:a.md', 'Notes on the release');
+        content.add('core:b.md', 'Nothing here');
+        const index = new QueryIndex(cy, content);
+        expect(names(index.match('content:release'))).to.deep.equal(['a']);
+        content.add('core:b.md', 'Planning the next release');
+        content.remove('core:a.md');
+        expect(names(index.match('content:release'))).to.deep.equal(['b']);
+        expect(names(index.match('releas'))).to.deep.equal(['b']);
+    });
+});
@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import { completeQuery, parseQuery } from '../../src/viz/query-parser.js';
+
+describe('Query parser', () => {
+    const errors = (query: string) => parseQuery(query).errors.map((e) => [e.message, e.start, e.end]);
+
+    it('parses terms, negation, groups and disjunctions', () => {
+        const { ast, errors } = parseQuery('tag:#a -(class:b OR "c d")');
+        expect(errors).to.deep.equal([]);
+        expect(ast).to.deep.equal({
+            type: 'and', start: 0, end: 26, children: [
+                { type: 'term', key: 'tag', value: '#a', start: 0, end: 6 },
+                {
+                    type: 'not', start: 7, end: 26, child: {
+                        type: 'or', start: 8, end: 26, children: [
+                            { type: 'term', key: 'class', value: 'b', start: 9, end: 16 },
+                            { type: 'term', key: '', value: '"c d"', start: 20, end: 25 },
+                        ],
+                    },
+                },
+            ],
+        });
+    });
+
+    it('only splits on OR as a separate word', () => {
+        expect(parseQuery('name:ORANGE').ast).to.deep.include({ type: 'term', value: 'ORANGE' });
+    });
+
+    it('parses the query of neighbor with positions in the whole query', () => {
+        const { ast } = parseQuery('x neighbor:(tag:#a OR name:b)');
+        const neighbor = (ast as any).children[1];
+        expect(neighbor.key).to.equal('neighbor');
+        expect(neighbor.query.children[0]).to.deep.equal({ type: 'term', key: 'tag', value: '#a', start: 12, end: 18 });
+    });
+
+    it('reports unbalanced parentheses and quotes where they are', () => {
+        expect(errors('(tag:#a OR b')).to.deep.equal([['Missing closing parenthesis', 0, 1]]);
+        expect(errors('tag:#a)')).to.deep.equal([['Unmatched closing parenthesis', 6, 7]]);
+        expect(errors('name:"a b')).to.deep.equal([['Missing closing quote', 5, 9]]);
+        expect(errors('neighbor:(tag:#a')).to.deep.equal([['Missing closing parenthesis', 9, 16]]);
+        expect(errors('a ()')).to.deep.equal([['Empty parentheses', 2, 4]]);
+    });
+
+    it('reports dangling operators and missing values', () => {
+        expect(errors('a OR')).to.deep.equal([['Expected a query after OR', 2, 4]]);
+        expect(errors('OR a')).to.deep.equal([['Expected a query before OR', 0, 2]]);
+        expect(errors('tag: a')).to.deep.equal([['Missing value after tag:', 0, 4]]);
+    });
+
+    it('reads path: as the path of a note unless it has an arrow', () => {
+        expect(errors('path:Projects')).to.deep.equal([]);
+        expect(errors('path:"A"->"B"')).to.deep.equal([]);
+    });
+
+    it('reports malformed structural predicates', () => {
+        expect(errors('within:a')).to.deep.equal([['Expected within:<hops>:<name>', 0, 8]]);
+        expect(errors('neighbor:(a OR)')).to.deep.equal([['Expected a query after OR', 12, 14]]);
+    });
+});
+
+describe('Query completion', () => {
+    const vocabulary = { keys: ['tag', 'class', 'status', 'size'], tags: ['#agent', '#output'], classes: ['note', 'terminal-active'] };
+
+    it('completes keys', () => {
+        expect(completeQuery('tag:#a s', 8, vocabulary)).to.deep.equal({ start: 7, end: 8, items: ['size:', 'status:'] });
+        expect(completeQuery('-st', 3, vocabulary)).to.deep.equal({ start: 1, end: 3, items: ['status:'] });
+    });
+
+    it('completes tags and classes', () => {
+        expect(completeQuery('(tag:#o', 7, vocabulary)).to.deep.equal({ start: 5, end: 7, items: ['#output'] });
+        expect(completeQuery('class:', 6, vocabulary).items).to.deep.equal(['note', 'terminal-active']);
+    });
+
+    it('does not complete empty words', () => {
+        expect(completeQuery('a ', 2, vocabulary).items).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import {
+    emptySavedQuery,
+    findSavedQuery,
+    layoutName,
+    savedQueryFromSettings,
+    withSavedQuery,
+} from '../../src/viz/saved-queries.js';
+
+describe('Saved queries', () => {
+    const group = {
+        filter: 'tag:#output',
+        color: 'red',
+        shape: 'ellipse',
+        icon: { name: 'No icon', path: '', color: 'white' },
+        showInPane: true,
+        show: true,
+        size: 1.0,
+    };
+    const edgeGroup = {
+        filter: 'type:"depends on"',
+        color: 'orange',
+        width: 2,
+        lineStyle: 'dashed' as const,
+        arrow: 'triangle',
+        showInPane: true,
+        show: true,
+    };
+    const settings: any = { filter: '', layout: 'grid', styleGroups: [], toolbar: true };
+    const queries = [
+        { ...emptySavedQuery, name: 'Open agent sessions', filter: 'class:terminal-active' },
+        { ...emptySavedQuery, name: 'Outputs', filter: 'tag:#output', layout: 'circle' as const, styleGroups: [group],
+            edgeStyleGroups: [edgeGroup] },
+    ];
+
+    it('finds queries by name, ignoring case and whitespace', () => {
+        expect(findSavedQuery(queries, ' open AGENT sessions ')).to.equal(queries[0]);
+        expect(findSavedQuery(queries, 'unknown')).to.equal(undefined);
+    });
+
+    it('applies the filter, layout and style groups', () => {
+        const applied = withSavedQuery(settings, queries[1]);
+        expect(applied.filter).to.equal('tag:#output');
+        expect(applied.layout).to.equal('circle');
+        expect(applied.styleGroups).to.deep.equal([group]);
+        expect((applied as any).edgeStyleGroups).to.deep.equal([edgeGroup]);
+        expect(applied.toolbar).to.equal(true);
+    });
+
+    it('keeps the layout when the query has none', () => {
+        expect(withSavedQuery(settings, queries[0]).layout).to.equal('grid');
+    });
+
+    it('keeps the style groups of the graph when the query has none', () => {
+        const styled = { ...settings, styleGroups: [group], edgeStyleGroups: [edgeGroup] };
+        const applied = withSavedQuery(styled, queries[0]);
+        expect(applied.filter).to.equal('class:terminal-active');
+        expect(applied.styleGroups).to.deep.equal([group]);
+        expect(applied.edgeStyleGroups).to.deep.equal([edgeGroup]);
+    });
+
+    it('copies the style groups', () => {
+        const applied = withSavedQuery(settings, queries[1]);
+        applied.styleGroups[0].icon.color = 'black';
+        expect(group.icon.color).to.equal('white');
+    });
+
+    it('names the running layout', () => {
+        expect(layoutName('hierarchy')).to.equal('hierarchy');
+        expect(layoutName({ name: 'dagre' } as any)).to.equal('hierarchy');
+        expect(layoutName({ name: 'concentric' } as any)).to.equal('circle');
+        expect(layoutName({ name: 'cola' } as any)).to.equal('force-directed');
+    });
+
+    it('saves the view of a graph', () => {
+        const view = { ...settings, filter: 'tag:#output', layout: { name: 'grid' }, styleGroups: [group] };
+        expect(savedQueryFromSettings('Outputs', view)).to.deep.equal({
+            name: 'Outputs',
+            filter: 'tag:#output',
+            layout: 'grid',
+            styleGroups: [group],
+            edgeStyleGroups: [],
+        });
+        expect(savedQueryFromSettings('Edges', { ...view, edgeStyleGroups: [edgeGroup] }).edgeStyleGroups)
+            .to.deep.equal([edgeGroup]);
+    });
+});
@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import {
+    createManifest,
+    diffManifests,
+    hasSavedGraph,
+    isEmptyDiff,
+    legacyManifest,
+    migrateManifest,
+    parseManifest,
+    validateManifest,
+    WORKSPACE_FORMAT_VERSION,
+    WorkspaceFormatError,
+} from '../../src/viz/workspaces/workspace-manifest.js';
+
+describe('Workspace manifest', () => {
+    const graph = {
+        elements: {
+            nodes: [
+                { data: { id: 'core:a.md', name: 'a' }, position: { x: 0, y: 0 } },
+                { data: { id: 'core:b.md', name: 'b' }, position: { x: 10, y: 10 } },
+            ],
+            edges: [
+                { data: { id: 'core:a.md->core:b.md', source: 'core:a.md', target: 'core:b.md' } },
+            ],
+        },
+    };
+    const settings = { layout: 'force-directed', filter: '' };
+
+    it('accepts a freshly created manifest', () => {
+        const manifest = createManifest('test', graph, settings);
+        expect(manifest.version).to.equal(WORKSPACE_FORMAT_VERSION);
+        expect(validateManifest(manifest)).to.deep.equal([]);
+    });
+
+    it('migrates unversioned workspaces to the current version', () => {
+        const manifest = parseManifest(legacyManifest('old', graph, settings));
+        expect(manifest.version).to.equal(WORKSPACE_FORMAT_VERSION);
+        expect(manifest.name).to.equal('old');
+        expect(manifest.graph).to.deep.equal(graph);
+        expect(manifest.settings).to.deep.equal(settings);
+    });
+
+    it('rejects workspaces from a newer version', () => {
+        const manifest = { ...createManifest('new', graph, settings), version: WORKSPACE_FORMAT_VERSION + 1 };
+        expect(() => migrateManifest(manifest)).to.throw(WorkspaceFormatError, /newer version/);
+    });
+
+    it('rejects data without a version', () => {
+        expect(() => migrateManifest(graph)).to.throw(WorkspaceFormatError);
+    });
+
+    it('reports invalid elements', () => {
+        const broken = createManifest('broken', {
+            elements: {
+                nodes: [{ data: {} }],
+                edges: [{ data: { id: 'e', source: 'core:a.md', target: 'core:missing.md' } }],
+            },
+        }, settings);
+        const errors = validateManifest(broken);
+        expect(errors).to.have.length(3);
+        expect(() => parseManifest(broken)).to.throw(WorkspaceFormatError, /nodes\[0\] has no data.id/);
+    });
+
+    it('diffs the nodes and edges of two snapshots', () => {
+        const before = createManifest('test', graph, settings);
+        const after = createManifest('test', {
+            elements: {
+                nodes: [graph.elements.nodes[0], { data: { id: 'core:c.md' } }],
+                edges: [],
+            },
+        }, settings);
+        expect(diffManifests(before, after)).to.deep.equal({
+            addedNodes: ['core:c.md'],
+            removedNodes: ['core:b.md'],
+            addedEdges: [],
+            removedEdges: ['core:a.md->core:b.md'],
+        });
+        expect(isEmptyDiff(diffManifests(before, before))).to.be.true;
+    });
+
+    it('only finds saved graphs in folders with a manifest or legacy graph', async () => {
+        const files = new Set(['juggl/a/manifest.json', 'juggl/b/graph.json', 'juggl/c/snapshots/1.json']);
+        const exists = async (path: string) => files.has(path);
+        expect(await hasSavedGraph('juggl/a', exists)).to.be.true;
+        expect(await hasSavedGraph('juggl/b', exists)).to.be.true;
+        expect(await hasSavedGraph('juggl/c', exists)).to.be.false;
+    });
+});
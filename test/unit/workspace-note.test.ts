@@ -0,0 +1,31 @@
+import { expect } from 'chai';
+import { createManifest } from '../../src/viz/workspaces/workspace-manifest.js';
+import { parseWorkspaceNote, serializeWorkspaceNote, workspaceLinks } from '../../src/viz/workspaces/workspace-note.js';
+
+describe('Workspace notes', () => {
+    const manifest = createManifest('My "workspace"', {
+        elements: {
+            nodes: [
+                { data: { id: 'core:a.md' } },
+                { data: { id: 'core:image.png' } },
+                { data: { id: 'terminal:terminal-1' } },
+            ],
+            edges: [],
+        },
+    }, { layout: 'force-directed' });
+
+    it('links to the notes in the graph', () => {
+        expect(workspaceLinks(manifest)).to.deep.equal(['a', 'image.png']);
+        const note = serializeWorkspaceNote(manifest);
+        expect(note).to.match(/^---\njuggl-workspace: "My \\"workspace\\""\n/);
+        expect(note).to.contain('juggl-nodes:\n  - "[[a]]"\n  - "[[image.png]]"\n---');
+    });
+
+    it('reads back the manifest', () => {
+        expect(parseWorkspaceNote(serializeWorkspaceNote(manifest))).to.deep.equal(manifest);
+    });
+
+    it('returns null for notes without a workspace block', () => {
+        expect(parseWorkspaceNote('# Just a note\n```js\n{}\n```\n')).to.be.null;
+    });
+});